@@ -1,14 +1,38 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import {
+    DefineTable,
+    MacroDefinition,
     ParsedDesign,
+    ParsedFile,
+    ParsedModule,
     InstanceRef,
+    GenerateScope,
+    ParameterInfo,
+    PortBinding,
+    PortInfo,
 } from './parser/types';
 import { TsRegexParserBackend } from './parser/tsRegexBackend';
+import { definitionPath, replaceFileModules, resolvedDefinitions, setPreferredDefinitions } from './parser/designIndex';
+import { ParseCache } from './parser/parseCache';
+import {
+    ParameterValues,
+    WidthDeclaration,
+    declarationWidth,
+    evaluateConstant,
+    expressionWidth,
+} from './parser/widths';
 
 // Current design index so DefinitionProvider can see it
 let currentDesign: ParsedDesign | null = null;
 
+const UNIT_CONTEXT_VALUES: Record<ParsedModule['kind'], string> = {
+    module: 'verilogModule',
+    interface: 'verilogInterface',
+    package: 'verilogPackage',
+    class: 'verilogClass',
+};
+
 // -------------------- Nodes for Project Tree --------------------
 
 interface TempNode {
@@ -17,10 +41,11 @@ interface TempNode {
 }
 
 class VerilogNode extends vscode.TreeItem {
-    public readonly children?: VerilogNode[];
+    public children?: VerilogNode[];
     public readonly moduleName?: string;
     public readonly uri?: vscode.Uri;
     public readonly location?: vscode.Location;
+    public readonly port?: PortInfo;
     public parent?: VerilogNode;
 
     constructor(
@@ -31,6 +56,7 @@ class VerilogNode extends vscode.TreeItem {
             uri?: vscode.Uri;              // file
             location?: vscode.Location;    // module
             moduleName?: string;           // module name
+            port?: PortInfo;               // port nodes
             parent?: VerilogNode;
             contextValue?: string;
             description?: string;
@@ -41,6 +67,7 @@ class VerilogNode extends vscode.TreeItem {
         this.moduleName = options?.moduleName;
         this.uri = options?.uri;
         this.location = options?.location;
+        this.port = options?.port;
         this.parent = options?.parent;
         if (options?.description) {
             this.description = options.description;
@@ -154,34 +181,7 @@ class VerilogProjectTreeProvider implements vscode.TreeDataProvider<VerilogNode>
         );
 
         if (temp.uri) {
-            const modulesForFile =
-                this.design?.modulesByFile.get(temp.uri.toString()) ?? [];
-
-            const moduleNodes = modulesForFile.map(m => {
-                const portNodes = m.ports.map(p =>
-                    new VerilogNode(
-                        `${p.direction} ${p.name}`,
-                        vscode.TreeItemCollapsibleState.None,
-                        {
-                            location: p.location,
-                            contextValue: 'verilogPort',
-                            description: p.rangeText ?? '',
-                        },
-                    ),
-                );
-                return new VerilogNode(
-                    `module ${m.name}`,
-                    portNodes.length > 0
-                        ? vscode.TreeItemCollapsibleState.Collapsed
-                        : vscode.TreeItemCollapsibleState.None,
-                    {
-                        location: new vscode.Location(m.uri, m.definitionRange),
-                        moduleName: m.name,
-                        children: portNodes,
-                        parent: undefined,
-                    },
-                );
-            });
+            const moduleNodes = this.buildModuleNodes(temp.uri);
 
             if (moduleNodes.length > 0) {
                 node = new VerilogNode(
@@ -221,6 +221,223 @@ class VerilogProjectTreeProvider implements vscode.TreeDataProvider<VerilogNode>
         return node;
     }
 
+    private buildModuleNodes(uri: vscode.Uri): VerilogNode[] {
+        const modulesForFile =
+            this.design?.modulesByFile.get(uri.toString()) ?? [];
+
+        return modulesForFile.map(m => {
+            const paramNodes = m.parameters.map(p => {
+                const paramNode = new VerilogNode(
+                    `${p.kind} ${p.name}`,
+                    vscode.TreeItemCollapsibleState.None,
+                    {
+                        location: p.location,
+                        contextValue: 'verilogParameter',
+                        description: [p.typeText, p.defaultValue !== undefined ? `= ${p.defaultValue}` : '']
+                            .filter(Boolean)
+                            .join(' '),
+                    },
+                );
+                paramNode.iconPath = new vscode.ThemeIcon('symbol-constant');
+                return paramNode;
+            });
+            const portNodes = m.ports.map(p => {
+                if (p.direction === 'interface') {
+                    const portNode = new VerilogNode(
+                        `interface ${p.name}`,
+                        vscode.TreeItemCollapsibleState.None,
+                        {
+                            location: p.location,
+                            port: p,
+                            contextValue: 'verilogInterfacePort',
+                            description: [
+                                [p.interfaceName ?? 'interface', p.modportName].filter(Boolean).join('.'),
+                                p.rangeText,
+                            ].filter(Boolean).join(' '),
+                        },
+                    );
+                    portNode.iconPath = new vscode.ThemeIcon('plug');
+                    return portNode;
+                }
+                return new VerilogNode(
+                    `${p.direction} ${p.name}`,
+                    vscode.TreeItemCollapsibleState.None,
+                    {
+                        location: p.declarationLocation ?? p.location,
+                        port: p,
+                        contextValue: 'verilogPort',
+                        description: p.rangeText ?? '',
+                    },
+                );
+            });
+            const modportNodes = m.modports.map(mp => {
+                const modportPorts = mp.ports.map(p =>
+                    new VerilogNode(
+                        `${p.direction} ${p.name}`,
+                        vscode.TreeItemCollapsibleState.None,
+                        {
+                            location: m.signals.find(sig => sig.name === p.name)?.location ?? mp.location,
+                            contextValue: 'verilogModportPort',
+                        },
+                    ),
+                );
+                const modportNode = new VerilogNode(
+                    `modport ${mp.name}`,
+                    modportPorts.length > 0
+                        ? vscode.TreeItemCollapsibleState.Collapsed
+                        : vscode.TreeItemCollapsibleState.None,
+                    {
+                        location: mp.location,
+                        contextValue: 'verilogModport',
+                        children: modportPorts,
+                    },
+                );
+                modportNode.iconPath = new vscode.ThemeIcon('symbol-interface');
+                for (const child of modportPorts) {
+                    child.parent = modportNode;
+                }
+                return modportNode;
+            });
+            const signalNodes = m.signals.map(sig => {
+                const signalNode = new VerilogNode(
+                    sig.name,
+                    vscode.TreeItemCollapsibleState.None,
+                    {
+                        location: sig.location,
+                        contextValue: 'verilogSignal',
+                        description: [sig.typeText, sig.rangeText, sig.unpackedText].filter(Boolean).join(' '),
+                    },
+                );
+                signalNode.iconPath = new vscode.ThemeIcon(sig.kind === 'net' ? 'symbol-event' : 'symbol-variable');
+                return signalNode;
+            });
+            const signalGroupNodes: VerilogNode[] = [];
+            if (signalNodes.length > 0) {
+                const groupNode = new VerilogNode(
+                    'Signals',
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    {
+                        children: signalNodes,
+                        contextValue: 'verilogSignalGroup',
+                        description: String(signalNodes.length),
+                    },
+                );
+                for (const child of signalNodes) {
+                    child.parent = groupNode;
+                }
+                signalGroupNodes.push(groupNode);
+            }
+            const packageItemNodes = m.packageItems.map(item => {
+                const itemNode = new VerilogNode(
+                    `${item.kind} ${item.name}`,
+                    vscode.TreeItemCollapsibleState.None,
+                    {
+                        location: item.location,
+                        contextValue: 'verilogPackageItem',
+                    },
+                );
+                itemNode.iconPath = new vscode.ThemeIcon(
+                    item.kind === 'typedef' ? 'symbol-struct' : 'symbol-function',
+                );
+                return itemNode;
+            });
+            const classMemberNodes = [
+                ...(m.classInfo?.properties ?? []).map(prop => {
+                    const propNode = new VerilogNode(
+                        prop.name,
+                        vscode.TreeItemCollapsibleState.None,
+                        {
+                            location: prop.location,
+                            contextValue: 'verilogClassProperty',
+                            description: prop.typeText,
+                        },
+                    );
+                    propNode.iconPath = new vscode.ThemeIcon('symbol-field');
+                    return propNode;
+                }),
+                ...(m.classInfo?.methods ?? []).map(method => {
+                    const methodNode = new VerilogNode(
+                        `${method.kind} ${method.name}`,
+                        vscode.TreeItemCollapsibleState.None,
+                        {
+                            location: method.location,
+                            contextValue: 'verilogClassMethod',
+                        },
+                    );
+                    methodNode.iconPath = new vscode.ThemeIcon('symbol-method');
+                    return methodNode;
+                }),
+            ];
+            const children = [
+                ...paramNodes,
+                ...portNodes,
+                ...modportNodes,
+                ...signalGroupNodes,
+                ...packageItemNodes,
+                ...classMemberNodes,
+            ];
+            const unitNode = new VerilogNode(
+                `${m.kind} ${m.name}`,
+                children.length > 0
+                    ? vscode.TreeItemCollapsibleState.Collapsed
+                    : vscode.TreeItemCollapsibleState.None,
+                {
+                    location: new vscode.Location(m.uri, m.definitionRange),
+                    moduleName: m.name,
+                    contextValue: UNIT_CONTEXT_VALUES[m.kind],
+                    description: m.classInfo?.baseClass ? `extends ${m.classInfo.baseClass}` : undefined,
+                    children,
+                    parent: undefined,
+                },
+            );
+            if (m.kind === 'interface') {
+                unitNode.iconPath = new vscode.ThemeIcon('symbol-interface');
+            } else if (m.kind === 'package') {
+                unitNode.iconPath = new vscode.ThemeIcon('package');
+            } else if (m.kind === 'class') {
+                unitNode.iconPath = new vscode.ThemeIcon('symbol-class');
+            }
+            return unitNode;
+        });
+    }
+
+    // Rebuild only the module subtrees of the given files. Falls back to a full
+    // rebuild when the file set changed or a filter is active.
+    refreshFiles(files: vscode.Uri[], design: ParsedDesign, changed: vscode.Uri[]): void {
+        const sameFiles = files.length === this.files.length &&
+            files.every((uri, i) => uri.toString() === this.files[i].toString());
+        this.design = design;
+        if (!sameFiles || this.filterText) {
+            this.update(files, design, this.filterText);
+            return;
+        }
+
+        const fileNodes: VerilogNode[] = [];
+        for (const uri of changed) {
+            const node = this.findFileNode(uri);
+            if (!node) {
+                this.update(files, design, this.filterText);
+                return;
+            }
+            fileNodes.push(node);
+        }
+
+        for (const node of fileNodes) {
+            const moduleNodes = this.buildModuleNodes(node.uri!);
+            for (const child of moduleNodes) {
+                child.parent = node;
+                for (const port of child.children ?? []) {
+                    port.parent = child;
+                }
+            }
+            node.children = moduleNodes;
+            node.collapsibleState = moduleNodes.length > 0
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None;
+            this._onDidChangeTreeData.fire(node);
+        }
+    }
+
     findModuleNode(moduleName: string, uri?: vscode.Uri): VerilogNode | undefined {
         return this.findNode((node) => {
             if (!node.moduleName || node.moduleName !== moduleName) {
@@ -304,11 +521,13 @@ class VerilogProjectTreeProvider implements vscode.TreeDataProvider<VerilogNode>
                     uri: node.uri,
                     location: node.location,
                     moduleName: node.moduleName,
+                    port: node.port,
                     parent,
                     contextValue: node.contextValue,
                     description: typeof node.description === 'string' ? node.description : undefined,
                 },
             );
+            cloned.iconPath = node.iconPath;
             for (const child of filteredChildren) {
                 child.parent = cloned;
             }
@@ -337,12 +556,16 @@ class VerilogProjectTreeProvider implements vscode.TreeDataProvider<VerilogNode>
 
 // Add location so click opens the file
 class HierarchyNode extends vscode.TreeItem {
-    public readonly children?: HierarchyNode[];
+    public children?: HierarchyNode[];
+    // Builds children on first expansion when they were not built up front.
+    public buildChildren?: () => HierarchyNode[];
     public readonly definitionLocation?: vscode.Location;
     public readonly instanceLocation?: vscode.Location;
     public parent?: HierarchyNode;
     public instanceName?: string;
     public parentModuleName?: string;
+    public instance?: InstanceRef;
+    public generateScope?: GenerateScope;
 
     constructor(
         public moduleName: string,
@@ -355,7 +578,9 @@ class HierarchyNode extends vscode.TreeItem {
             parent?: HierarchyNode;
             instanceName?: string;
             parentModuleName?: string;
+            instance?: InstanceRef;
             contextValue?: string;
+            description?: string;
         },
     ) {
         super(label, collapsibleState);
@@ -365,7 +590,11 @@ class HierarchyNode extends vscode.TreeItem {
         this.parent = options?.parent;
         this.instanceName = options?.instanceName;
         this.parentModuleName = options?.parentModuleName;
+        this.instance = options?.instance;
         this.contextValue = options?.contextValue ?? 'verilogModuleHierarchy';
+        if (options?.description) {
+            this.description = options.description;
+        }
 
         const target = this.instanceLocation ?? this.definitionLocation;
         if (target) {
@@ -378,7 +607,7 @@ class HierarchyNode extends vscode.TreeItem {
     }
 }
 
-class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode> {
+export class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode> {
     private _onDidChangeTreeData = new vscode.EventEmitter<HierarchyNode | undefined | void>();
     readonly onDidChangeTreeData: vscode.Event<HierarchyNode | undefined | void> =
         this._onDidChangeTreeData.event;
@@ -390,6 +619,7 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
     private resolveStrategy: 'all' | 'first' = 'all';
     private topModule: string | undefined;
     private filterText = '';
+    private expandInstanceArrays = false;
     private stats = {
         nodeCount: 0,
         maxDepthSeen: 0,
@@ -403,6 +633,7 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
         resolveStrategy: 'all' | 'first',
         topModule?: string,
         filterText?: string,
+        expandInstanceArrays = false,
     ): void {
         this.design = design;
         this.recomputeRoots();
@@ -410,6 +641,7 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
         this.resolveStrategy = resolveStrategy;
         this.topModule = topModule;
         this.filterText = (filterText ?? '').toLowerCase();
+        this.expandInstanceArrays = expandInstanceArrays;
         this.stats = {
             nodeCount: 0,
             maxDepthSeen: 0,
@@ -431,6 +663,99 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
         this._onDidChangeTreeData.fire();
     }
 
+    // Rebuild only the subtrees that involve the changed module names. Falls back
+    // to a full rebuild when the set of roots changed or a filter is active.
+    refreshModules(design: ParsedDesign, changedNames: Set<string>): void {
+        const previousRoots = this.roots;
+        this.design = design;
+        this.recomputeRoots();
+        const sameRoots = previousRoots.length === this.roots.length &&
+            previousRoots.every((name, i) => name === this.roots[i]);
+        if (!sameRoots || this.filterText) {
+            this.update(
+                design,
+                this.maxDepth,
+                this.resolveStrategy,
+                this.topModule,
+                this.filterText,
+                this.expandInstanceArrays,
+            );
+            return;
+        }
+
+        // Rebuild from the nearest ancestor whose own module did not change, so its
+        // definition location and instance list are still valid.
+        const targets = new Set<HierarchyNode>();
+        const visit = (nodes: HierarchyNode[]) => {
+            for (const node of nodes) {
+                if (changedNames.has(node.moduleName)) {
+                    let target = node;
+                    while (target.parent && (changedNames.has(target.moduleName) || target.generateScope)) {
+                        target = target.parent;
+                    }
+                    targets.add(target);
+                    continue;
+                }
+                // Children that were never built need no refresh: they are built from the
+                // current design on first expansion.
+                visit(node.children ?? []);
+            }
+        };
+        visit(this.rootNodes);
+
+        for (const target of targets) {
+            const ancestors: HierarchyNode[] = [];
+            for (let p = target.parent; p; p = p.parent) {
+                ancestors.push(p);
+            }
+            // A node scheduled above this one already covers it.
+            if (ancestors.some(a => targets.has(a))) {
+                continue;
+            }
+            this.rebuildNode(target, ancestors);
+        }
+    }
+
+    private rebuildNode(target: HierarchyNode, ancestors: HierarchyNode[]): void {
+        const parent = target.parent;
+        const moduleAncestors = ancestors.filter(a => !a.generateScope);
+        const visited = new Set(moduleAncestors.map(a => a.moduleName));
+        const rebuilt = parent
+            ? this.createNodeForModule(
+                target.moduleName,
+                visited,
+                target.instanceLocation,
+                target.definitionLocation,
+                parent,
+                moduleAncestors.length,
+            )
+            : this.createNodeForModule(target.moduleName, new Set(), undefined, undefined, undefined, 0);
+        if (!rebuilt) {
+            return;
+        }
+        if (target.instanceName) {
+            rebuilt.label = target.label;
+            rebuilt.instanceName = target.instanceName;
+            rebuilt.parentModuleName = target.parentModuleName;
+            rebuilt.instance = target.instance;
+            rebuilt.contextValue = target.contextValue;
+            if (target.instance) {
+                const definition = this.design?.modulesByName.get(target.moduleName)?.find(m =>
+                    target.definitionLocation?.uri.toString() === m.uri.toString(),
+                );
+                this.attachParameterNodes(rebuilt, target.instance, definition);
+            }
+        }
+
+        const siblings = parent ? parent.children ?? [] : this.rootNodes;
+        const index = siblings.indexOf(target);
+        if (index === -1) {
+            return;
+        }
+        siblings[index] = rebuilt;
+        this._onDidChangeTreeData.fire(parent);
+    }
+
     getTreeItem(element: HierarchyNode): vscode.TreeItem {
         return element;
     }
@@ -442,7 +767,19 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
             }
             return Promise.resolve(this.rootNodes);
         }
-        return Promise.resolve(element.children ?? []);
+        return Promise.resolve(this.childrenOf(element));
+    }
+
+    // Children of node, built first if they were deferred to the first expansion.
+    private childrenOf(node: HierarchyNode): HierarchyNode[] {
+        if (!node.children && node.buildChildren) {
+            node.children = node.buildChildren();
+            node.buildChildren = undefined;
+            for (const child of node.children) {
+                child.parent = node;
+            }
+        }
+        return node.children ?? [];
     }
 
     getParent(element: HierarchyNode): vscode.ProviderResult<HierarchyNode> {
@@ -462,9 +799,10 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
             }
         }
 
+        // Interfaces are only reachable through the modules that instantiate them.
         const rootSet = new Set<string>();
         for (const m of this.design.modules) {
-            if (!instantiated.has(m.name)) {
+            if (m.kind === 'module' && !instantiated.has(m.name)) {
                 rootSet.add(m.name);
             }
         }
@@ -514,7 +852,7 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
         const newVisited = new Set(visited);
         newVisited.add(name);
 
-        const mods = this.design.modulesByName.get(name) ?? [];
+        const mods = resolvedDefinitions(this.design, name);
         const instances = mods.flatMap(m => m.instances);
 
         // Pick the first module implementation for navigation
@@ -523,23 +861,25 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
             ? new vscode.Location(primaryModule.uri, primaryModule.definitionRange)
             : undefined);
 
-        const children: HierarchyNode[] = [];
+        let children: HierarchyNode[] = [];
 
         for (const inst of instances) {
             const targets = this.design.modulesByName.get(inst.moduleName);
             if (!targets || targets.length === 0) {
                 const externalNode = new HierarchyNode(
                     inst.moduleName,
-                    `${inst.instanceName}: ${inst.moduleName} (external)`,
+                    `${inst.instanceName}${inst.arrayRange ?? ''}: ${inst.moduleName} (external)`,
                     vscode.TreeItemCollapsibleState.None,
                     {
                         instanceLocation: inst.location,
                         parent: undefined,
                         instanceName: inst.instanceName,
                         parentModuleName: name,
+                        instance: inst,
                         contextValue: 'verilogModuleInstance',
                     },
                 );
+                this.attachParameterNodes(externalNode, inst);
                 this.stats.nodeCount++;
                 if (this.shouldKeepNode(externalNode)) {
                     children.push(externalNode);
@@ -547,28 +887,84 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
                 continue;
             }
 
+            // A definition chosen for this module name wins over the global strategy.
             const resolvedTargets =
-                this.resolveStrategy === 'first' ? targets.slice(0, 1) : targets;
+                this.resolveStrategy === 'first' ? targets.slice(0, 1) : resolvedDefinitions(this.design, inst.moduleName);
+            const indices = this.expandInstanceArrays ? instanceArrayIndices(inst.arrayRange) : null;
             for (const t of resolvedTargets) {
-                const childLoc = new vscode.Location(t.uri, t.definitionRange);
-                const childNode = this.createNodeForModule(
-                    t.name,
+                if (!indices) {
+                    const childNode = this.createInstanceNode(
+                        inst,
+                        t,
+                        name,
+                        newVisited,
+                        safeDepth + 1,
+                        `${inst.instanceName}${inst.arrayRange ?? ''}`,
+                    );
+                    if (childNode) {
+                        children.push(childNode);
+                    }
+                    continue;
+                }
+
+                // One child per array element, grouped under the declared array. Every
+                // element has the same subtree, so only the first is built up front.
+                const first = this.createInstanceNode(
+                    inst,
+                    t,
+                    name,
                     newVisited,
-                    inst.location,
-                    childLoc,
-                    undefined,
                     safeDepth + 1,
+                    `${inst.instanceName}[${indices[0]}]`,
+                );
+                if (!first) {
+                    continue;
+                }
+                const elements = [first, ...indices.slice(1).map(index => {
+                    const element = new HierarchyNode(
+                        t.name,
+                        `${inst.instanceName}[${index}]: ${t.name}`,
+                        first.collapsibleState ?? vscode.TreeItemCollapsibleState.None,
+                        {
+                            definitionLocation: first.definitionLocation,
+                            instanceLocation: inst.location,
+                            instanceName: inst.instanceName,
+                            parentModuleName: name,
+                            instance: inst,
+                            contextValue: 'verilogModuleInstance',
+                        },
+                    );
+                    element.iconPath = first.iconPath;
+                    element.buildChildren = () =>
+                        this.createInstanceNode(inst, t, name, newVisited, safeDepth + 1, '')?.children ?? [];
+                    this.stats.nodeCount++;
+                    return element;
+                })];
+                const arrayNode = new HierarchyNode(
+                    t.name,
+                    `${inst.instanceName}${inst.arrayRange}: ${t.name}`,
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    {
+                        children: elements,
+                        definitionLocation: new vscode.Location(t.uri, t.definitionRange),
+                        instanceLocation: inst.location,
+                        instanceName: inst.instanceName,
+                        parentModuleName: name,
+                        instance: inst,
+                        contextValue: 'verilogModuleInstance',
+                        description: `${indices.length} elements`,
+                    },
                 );
-                if (childNode) {
-                    childNode.label = `${inst.instanceName}: ${t.name}`;
-                    childNode.instanceName = inst.instanceName;
-                    childNode.parentModuleName = name;
-                    childNode.contextValue = 'verilogModuleInstance';
-                    children.push(childNode);
+                this.stats.nodeCount++;
+                for (const element of elements) {
+                    element.parent = arrayNode;
                 }
+                children.push(arrayNode);
             }
         }
 
+        children = this.nestInGenerateScopes(children);
+
         const state = children.length
             ? vscode.TreeItemCollapsibleState.Collapsed
             : vscode.TreeItemCollapsibleState.None;
@@ -591,6 +987,110 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
         return this.shouldKeepNode(node, children) ? node : null;
     }
 
+    private createInstanceNode(
+        inst: InstanceRef,
+        target: ParsedModule,
+        parentName: string,
+        visited: Set<string>,
+        depth: number,
+        instanceLabel: string,
+    ): HierarchyNode | null {
+        const childNode = this.createNodeForModule(
+            target.name,
+            visited,
+            inst.location,
+            new vscode.Location(target.uri, target.definitionRange),
+            undefined,
+            depth,
+        );
+        if (!childNode) {
+            return null;
+        }
+        childNode.label = `${instanceLabel}: ${target.name}`;
+        childNode.instanceName = inst.instanceName;
+        childNode.parentModuleName = parentName;
+        childNode.instance = inst;
+        childNode.contextValue = 'verilogModuleInstance';
+        if (target.kind === 'interface') {
+            childNode.iconPath = new vscode.ThemeIcon('symbol-interface');
+        }
+        this.attachParameterNodes(childNode, inst, target);
+        return childNode;
+    }
+
+    // Group instance nodes under their generate blocks, e.g. gen_lane[i] > u_phy.
+    // Scopes are matched by location since every instance carries its own copy.
+    private nestInGenerateScopes(children: HierarchyNode[]): HierarchyNode[] {
+        const result: HierarchyNode[] = [];
+        const scopeNodes = new Map<string, HierarchyNode>();
+
+        for (const child of children) {
+            let siblings = result;
+            let parent: HierarchyNode | undefined;
+            let key = '';
+            for (const scope of child.instance?.generateScopes ?? []) {
+                const start = scope.location.range.start;
+                key += `/${start.line}:${start.character}`;
+                let scopeNode = scopeNodes.get(key);
+                if (!scopeNode) {
+                    const label = scope.label
+                        ? (scope.kind === 'for' && scope.loopVariable
+                            ? `${scope.label}[${scope.loopVariable}]`
+                            : scope.label)
+                        : `(unnamed ${scope.kind})`;
+                    scopeNode = new HierarchyNode(
+                        '',
+                        label,
+                        vscode.TreeItemCollapsibleState.Collapsed,
+                        {
+                            children: [],
+                            instanceLocation: scope.location,
+                            parent,
+                            contextValue: 'verilogGenerateScope',
+                            description: scope.header,
+                        },
+                    );
+                    scopeNode.generateScope = scope;
+                    scopeNode.iconPath = new vscode.ThemeIcon('symbol-namespace');
+                    scopeNodes.set(key, scopeNode);
+                    siblings.push(scopeNode);
+                }
+                parent = scopeNode;
+                siblings = scopeNode.children ?? [];
+            }
+            if (parent) {
+                child.parent = parent;
+            }
+            siblings.push(child);
+        }
+
+        return result;
+    }
+
+    // Parameter overrides of an instance are shown before its child instances.
+    private attachParameterNodes(node: HierarchyNode, inst: InstanceRef, target?: ParsedModule): void {
+        if (inst.parameterBindings.length === 0) {
+            return;
+        }
+        const paramNodes = inst.parameterBindings.map(b => {
+            const paramName = b.paramName ?? resolvePositionalParameter(target, b.position) ?? `#${b.position}`;
+            const paramNode = new HierarchyNode(
+                '',
+                `${paramName} = ${b.expr}`,
+                vscode.TreeItemCollapsibleState.None,
+                {
+                    instanceLocation: b.location,
+                    parent: node,
+                    contextValue: 'verilogParameterOverride',
+                },
+            );
+            paramNode.iconPath = new vscode.ThemeIcon('symbol-constant');
+            return paramNode;
+        });
+        node.children = [...paramNodes, ...(node.children ?? [])];
+        node.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+    }
+
     private shouldKeepNode(node: HierarchyNode, children: HierarchyNode[] = []): boolean {
         if (!this.filterText) {
             return true;
@@ -607,7 +1107,7 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
                 if (node.moduleName === name) {
                     return node;
                 }
-                const children = node.children ?? [];
+                const children = this.childrenOf(node);
                 const found = visit(children);
                 if (found) {
                     return found;
@@ -623,7 +1123,7 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
         const visit = (nodes: HierarchyNode[]) => {
             for (const node of nodes) {
                 result.push(node);
-                const children = node.children ?? [];
+                const children = this.childrenOf(node);
                 if (children.length > 0) {
                     visit(children);
                 }
@@ -645,7 +1145,7 @@ class VerilogHierarchyProvider implements vscode.TreeDataProvider<HierarchyNode>
                 if (matchesModule || matchesInstance) {
                     return node;
                 }
-                const children = node.children ?? [];
+                const children = this.childrenOf(node);
                 const found = visit(children);
                 if (found) {
                     return found;
@@ -709,15 +1209,164 @@ class DirectConnectionsProvider implements vscode.TreeDataProvider<ConnectionNod
     }
 }
 
+// -------------------- Class Inheritance Tree --------------------
+
+class ClassNode extends vscode.TreeItem {
+    public children: ClassNode[] = [];
+    public parent?: ClassNode;
+
+    // Without cls the node stands for a base class outside the index (e.g. uvm_env).
+    constructor(label: string, public readonly cls?: ParsedModule) {
+        super(label, vscode.TreeItemCollapsibleState.None);
+        this.iconPath = new vscode.ThemeIcon('symbol-class');
+        if (cls) {
+            this.contextValue = 'verilogClass';
+            this.description = cls.classInfo?.registration;
+            this.tooltip = vscode.workspace.asRelativePath(cls.uri, false);
+            this.command = {
+                command: 'vscode.open',
+                title: 'Open Class Definition',
+                arguments: [cls.uri, { selection: cls.definitionRange }],
+            };
+        } else {
+            this.contextValue = 'verilogExternalClass';
+            this.description = 'external';
+        }
+    }
+}
+
+class VerilogClassesProvider implements vscode.TreeDataProvider<ClassNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<ClassNode | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<ClassNode | undefined | void> =
+        this._onDidChangeTreeData.event;
+    private rootNodes: ClassNode[] = [];
+
+    // Roots are classes without a base; classes extending something outside the index
+    // are grouped under a node for that base.
+    update(design: ParsedDesign | null): void {
+        const classes = (design?.modules ?? []).filter(m => m.kind === 'class');
+        const names = new Set(classes.map(c => c.name));
+        const derived = new Map<string, ParsedModule[]>();
+        const roots: ClassNode[] = [];
+        const externalBases = new Map<string, ClassNode>();
+
+        for (const cls of classes) {
+            const base = baseClassName(cls);
+            if (base) {
+                const list = derived.get(base) ?? [];
+                list.push(cls);
+                derived.set(base, list);
+            }
+        }
+
+        const reached = new Set<string>();
+        const build = (cls: ParsedModule, visited: Set<string>, parent?: ClassNode): ClassNode => {
+            const node = new ClassNode(cls.name, cls);
+            node.parent = parent;
+            reached.add(cls.name);
+            const nextVisited = new Set(visited).add(cls.name);
+            node.children = (derived.get(cls.name) ?? [])
+                .filter(child => !nextVisited.has(child.name))
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(child => build(child, nextVisited, node));
+            if (node.children.length > 0) {
+                node.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+            }
+            return node;
+        };
+
+        for (const cls of classes) {
+            const base = baseClassName(cls);
+            if (!base) {
+                roots.push(build(cls, new Set()));
+            } else if (!names.has(base)) {
+                let baseNode = externalBases.get(base);
+                if (!baseNode) {
+                    baseNode = new ClassNode(base);
+                    baseNode.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+                    externalBases.set(base, baseNode);
+                    roots.push(baseNode);
+                }
+                baseNode.children.push(build(cls, new Set(), baseNode));
+            }
+        }
+
+        // Classes in an extends cycle (A extends B, B extends A) hang off no root: show
+        // each cycle from its first class by name, cut where it closes.
+        const byName = new Map(classes.map(c => [c.name, c]));
+        for (const cls of [...classes].sort((a, b) => a.name.localeCompare(b.name))) {
+            if (reached.has(cls.name)) {
+                continue;
+            }
+            // Every base up the chain is indexed and unreached, so the chain loops.
+            const chain: ParsedModule[] = [];
+            let current: ParsedModule | undefined = cls;
+            while (current && !chain.includes(current)) {
+                chain.push(current);
+                current = byName.get(baseClassName(current) ?? '');
+            }
+            if (!current) {
+                continue;
+            }
+            const [first] = chain.slice(chain.indexOf(current)).sort((a, b) => a.name.localeCompare(b.name));
+            const root = build(first, new Set());
+            root.description = [root.description, `extends ${baseClassName(first)} (cycle)`].filter(Boolean).join(' ');
+            roots.push(root);
+        }
+
+        for (const baseNode of externalBases.values()) {
+            baseNode.children.sort((a, b) => String(a.label).localeCompare(String(b.label)));
+        }
+        this.rootNodes = roots.sort((a, b) => String(a.label).localeCompare(String(b.label)));
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: ClassNode): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: ClassNode): Thenable<ClassNode[]> {
+        return Promise.resolve(element ? element.children : this.rootNodes);
+    }
+
+    getParent(element: ClassNode): vscode.ProviderResult<ClassNode> {
+        return element.parent;
+    }
+}
+
+// "extends pkg::base" is matched by the class name alone.
+function baseClassName(cls: ParsedModule): string | undefined {
+    return cls.classInfo?.baseClass?.split('::').pop();
+}
+
+// Directories skipped when scanning the workspace without a filelist.
+const SCAN_EXCLUDE_DIRS = ['.git', 'node_modules', 'out', 'dist', 'build'];
+
+function isExcludedFromScan(uri: vscode.Uri): boolean {
+    const relPath = vscode.workspace.asRelativePath(uri, false).replace(/\\/g, '/');
+    return relPath.split('/').some(part => SCAN_EXCLUDE_DIRS.includes(part));
+}
+
+// Inputs of the last full refresh, reused to reparse single files.
+type IndexState = {
+    files: vscode.Uri[];
+    fromFilelist: boolean;
+    defines: DefineTable;
+    includeDirs: vscode.Uri[];
+    enablePreprocess: boolean;
+    maxFileSizeMB: number;
+    skipHierarchyBuild: boolean;
+};
+
 type FilelistData = {
-    defines: Set<string>;
+    defines: DefineTable;
     files: vscode.Uri[];
     includeDirs: vscode.Uri[];
     topModule?: string;
 };
 
 async function loadFilelist(): Promise<FilelistData> {
-    const defines = new Set<string>();
+    const defines: DefineTable = new Map();
     const config = vscode.workspace.getConfiguration('vetree-verilog');
     const definesFile = config.get<string>('definesFile');
     if (!definesFile) {
@@ -756,7 +1405,7 @@ async function parseFilelist(
     filelistUri: vscode.Uri,
     visited: Set<string>,
 ): Promise<FilelistData> {
-    const defines = new Set<string>();
+    const defines: DefineTable = new Map();
     const files: vscode.Uri[] = [];
     const includeDirs: vscode.Uri[] = [];
     let topModule: string | undefined;
@@ -789,7 +1438,7 @@ async function parseFilelist(
                         const bytes = await vscode.workspace.fs.readFile(nestedUri);
                         const nestedText = Buffer.from(bytes).toString('utf8');
                         const nested = await parseFilelist(nestedText, nestedUri, visited);
-                        nested.defines.forEach(d => defines.add(d));
+                        nested.defines.forEach((def, name) => defines.set(name, def));
                         files.push(...nested.files);
                         includeDirs.push(...nested.includeDirs);
                         if (!topModule && nested.topModule) {
@@ -805,15 +1454,15 @@ async function parseFilelist(
                 const rest = token.slice('+define+'.length);
                 const parts = rest.split('+');
                 for (const part of parts) {
-                    const name = part.split('=')[0].trim();
-                    if (name) {
-                        defines.add(name);
+                    const def = parseDefineFlag(part);
+                    if (def) {
+                        defines.set(def.name, def);
                     }
                 }
             } else if (token.startsWith('-D')) {
-                const name = token.slice(2).split('=')[0].trim();
-                if (name) {
-                    defines.add(name);
+                const def = parseDefineFlag(token.slice(2));
+                if (def) {
+                    defines.set(def.name, def);
                 }
             } else if (token.startsWith('+top+')) {
                 const name = token.slice('+top+'.length).trim();
@@ -841,7 +1490,7 @@ async function parseFilelist(
                         const bytes = await vscode.workspace.fs.readFile(nestedUri);
                         const nestedText = Buffer.from(bytes).toString('utf8');
                         const nested = await parseFilelist(nestedText, nestedUri, visited);
-                        nested.defines.forEach(d => defines.add(d));
+                        nested.defines.forEach((def, name) => defines.set(name, def));
                         files.push(...nested.files);
                         includeDirs.push(...nested.includeDirs);
                         if (!topModule && nested.topModule) {
@@ -873,6 +1522,17 @@ async function parseFilelist(
     return { defines, files, includeDirs, topModule };
 }
 
+// NAME or NAME=VALUE from +define+/-D flags.
+function parseDefineFlag(text: string): MacroDefinition | null {
+    const eqIndex = text.indexOf('=');
+    const name = (eqIndex === -1 ? text : text.slice(0, eqIndex)).trim();
+    if (!name) {
+        return null;
+    }
+    const body = eqIndex === -1 ? '' : text.slice(eqIndex + 1).trim();
+    return { name, body };
+}
+
 function resolveFilePath(token: string, baseDir: vscode.Uri): vscode.Uri | null {
     const trimmed = token.trim();
     if (!trimmed) {
@@ -897,7 +1557,77 @@ function makeWorkspaceGlob(
     return baseRel ? `${baseRel}/${normalized}` : normalized;
 }
 
-function findDirectConnections(
+const MAX_EXPANDED_ARRAY_SIZE = 256;
+
+// Element indices of a numeric instance array range, in declaration order:
+// [3:0] -> 3,2,1,0 and [4] -> 0..3. Null when the range is not numeric or too large.
+function instanceArrayIndices(range: string | undefined): number[] | null {
+    const m = range ? /^\[(\d+)(?::(\d+))?\]$/.exec(range) : null;
+    if (!m) {
+        return null;
+    }
+    const first = m[2] !== undefined ? Number(m[1]) : 0;
+    const last = m[2] !== undefined ? Number(m[2]) : Number(m[1]) - 1;
+    const count = Math.abs(last - first) + 1;
+    if (last < 0 || count > MAX_EXPANDED_ARRAY_SIZE) {
+        return null;
+    }
+    const step = last >= first ? 1 : -1;
+    return Array.from({ length: count }, (_, k) => first + k * step);
+}
+
+// Typedefs, functions, tasks and parameters named itemName in the given package.
+function findPackageItemLocations(design: ParsedDesign, packageName: string, itemName: string): vscode.Location[] {
+    return (design.modulesByName.get(packageName) ?? [])
+        .filter(m => m.kind === 'package')
+        .flatMap(pkg => [
+            ...pkg.packageItems.filter(item => item.name === itemName).map(item => item.location),
+            ...pkg.parameters.filter(p => p.name === itemName).map(p => p.location),
+        ]);
+}
+
+// Declarations of name inside a design unit.
+function findLocalSymbolLocations(unit: ParsedModule, name: string): vscode.Location[] {
+    return [
+        ...unit.signals.filter(sig => sig.name === name).map(sig => sig.location),
+        ...unit.ports.filter(p => p.name === name).map(p => p.declarationLocation ?? p.location),
+        ...unit.parameters.filter(p => p.name === name).map(p => p.location),
+        ...unit.instances.filter(inst => inst.instanceName === name).map(inst => inst.location),
+        ...unit.packageItems.filter(item => item.name === name).map(item => item.location),
+        ...(unit.classInfo?.properties ?? []).filter(p => p.name === name).map(p => p.location),
+        ...(unit.classInfo?.methods ?? []).filter(mt => mt.name === name).map(mt => mt.location),
+    ];
+}
+
+// Every instantiation of moduleName across the design, with the unit that contains it.
+function findInstantiations(
+    design: ParsedDesign,
+    moduleName: string,
+): { parent: ParsedModule; instance: InstanceRef }[] {
+    const result: { parent: ParsedModule; instance: InstanceRef }[] = [];
+    for (const units of design.modulesByName.values()) {
+        for (const parent of units) {
+            for (const instance of parent.instances) {
+                if (instance.moduleName === moduleName) {
+                    result.push({ parent, instance });
+                }
+            }
+        }
+    }
+    return result;
+}
+
+// Positional overrides follow the order of the module's overridable parameters.
+function resolvePositionalParameter(module: ParsedModule | undefined, position: number): string | undefined {
+    return module?.parameters.filter(p => p.kind === 'parameter')[position]?.name;
+}
+
+// Positional bindings whose target is unknown are shown by position.
+function bindingPortLabel(binding: PortBinding): string {
+    return binding.portName || `#${binding.position ?? 0}`;
+}
+
+function findDirectConnections(
     design: ParsedDesign,
     parentModule: string,
     instanceA: string,
@@ -948,7 +1678,9 @@ function findDirectConnections(
         for (const pa of portsA) {
             for (const pb of portsB) {
                 result.push({
-                    label: `${instA.instanceName}.${pa.portName} - ${instB.instanceName}.${pb.portName}`,
+                    label: `${instA.instanceName}.${bindingPortLabel(pa)} - ` +
+                        `${instB.instanceName}.${bindingPortLabel(pb)}` +
+                        (pa.implicit || pb.implicit ? ' (implicit)' : ''),
                     locationA: pa.location,
                     locationB: pb.location,
                 });
@@ -1027,9 +1759,50 @@ class VerilogDefinitionProvider implements vscode.DefinitionProvider {
         }
         const word = document.getText(wordRange);
 
-        const candidates = design.modulesByName.get(word);
-        if (!candidates || candidates.length === 0) {
-            return null;
+        // "axi_if.master": the modport of an indexed interface.
+        const linePrefix = document.lineAt(wordRange.start.line).text.slice(0, wordRange.start.character);
+        const interfaceName = /([a-zA-Z_]\w*)\s*\.\s*$/.exec(linePrefix)?.[1];
+        if (interfaceName) {
+            const modports = (design.modulesByName.get(interfaceName) ?? [])
+                .filter(m => m.kind === 'interface')
+                .flatMap(m => m.modports.filter(mp => mp.name === word));
+            if (modports.length > 0) {
+                return modports.map(mp => mp.location);
+            }
+        }
+
+        // "pkg::item": an item of an indexed package.
+        const packageName = /([a-zA-Z_]\w*)\s*::\s*$/.exec(linePrefix)?.[1];
+        if (packageName) {
+            const items = findPackageItemLocations(design, packageName, word);
+            if (items.length > 0) {
+                return items;
+            }
+        }
+
+        const candidates = resolvedDefinitions(design, word);
+        if (candidates.length === 0) {
+            const unitsInFile = design.modulesByFile.get(document.uri.toString()) ?? [];
+
+            // A signal, port, parameter, instance or class member of the enclosing unit,
+            // then of the units around it (a class inside a package). Other units in the
+            // file are unrelated scopes, so they are not searched.
+            const enclosing = unitsInFile
+                .filter(m => m.fullRange.contains(position))
+                .sort((a, b) => b.fullRange.start.compareTo(a.fullRange.start));
+            for (const unit of enclosing) {
+                const local = findLocalSymbolLocations(unit, word);
+                if (local.length > 0) {
+                    return local;
+                }
+            }
+
+            // An unqualified name brought in by an import of those units.
+            const imported = enclosing
+                .flatMap(m => m.imports)
+                .filter(imp => imp.itemName === '*' || imp.itemName === word)
+                .flatMap(imp => findPackageItemLocations(design, imp.packageName, word));
+            return imported.length > 0 ? imported : null;
         }
 
         const locations: vscode.Location[] = [];
@@ -1055,14 +1828,869 @@ class VerilogDefinitionProvider implements vscode.DefinitionProvider {
     }
 }
 
+// -------------------- ReferenceProvider --------------------
+
+// "Find All References" on a module or interface name lists its instantiations.
+class VerilogReferenceProvider implements vscode.ReferenceProvider {
+    constructor(private getDesign: () => ParsedDesign | null) {}
+
+    provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        _token: vscode.CancellationToken,
+    ): vscode.ProviderResult<vscode.Location[]> {
+        const design = this.getDesign();
+        const wordRange = document.getWordRangeAtPosition(position, /[a-zA-Z_]\w*/);
+        if (!design || !wordRange) {
+            return null;
+        }
+        const word = document.getText(wordRange);
+        const definitions = design.modulesByName.get(word);
+        if (!definitions || definitions.length === 0) {
+            return null;
+        }
+
+        const locations = findInstantiations(design, word).map(({ instance }) => instance.moduleNameLocation);
+        if (context.includeDeclaration) {
+            locations.unshift(...definitions.map(m => new vscode.Location(m.uri, m.definitionRange)));
+        }
+        return locations;
+    }
+}
+
+// -------------------- HoverProvider --------------------
+
+function describePort(p: PortInfo): string {
+    if (p.direction === 'interface') {
+        return `${p.interfaceName ?? 'interface'}${p.modportName ? `.${p.modportName}` : ''} ${p.name}`;
+    }
+    return [p.direction.padEnd(6), p.rangeText, p.name].filter(Boolean).join(' ');
+}
+
+function describeParameter(p: ParameterInfo): string {
+    const decl = [p.kind, p.typeText, p.name].filter(Boolean).join(' ');
+    return p.defaultValue !== undefined ? `${decl} = ${p.defaultValue}` : decl;
+}
+
+// Hover cards: a unit's file, parameters and ports; an instance's module and port binding count.
+class VerilogHoverProvider implements vscode.HoverProvider {
+    constructor(private getDesign: () => ParsedDesign | null) {}
+
+    provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+    ): vscode.ProviderResult<vscode.Hover> {
+        const design = this.getDesign();
+        const wordRange = document.getWordRangeAtPosition(position, /[a-zA-Z_]\w*/);
+        if (!design || !wordRange) {
+            return null;
+        }
+        const word = document.getText(wordRange);
+
+        const definitions = design.modulesByName.get(word);
+        if (definitions && definitions.length > 0) {
+            return new vscode.Hover(this.describeUnit(definitions, document.languageId), wordRange);
+        }
+
+        const enclosing = (design.modulesByFile.get(document.uri.toString()) ?? [])
+            .find(m => m.fullRange.contains(position));
+        const instance = enclosing?.instances.find(inst => inst.instanceName === word);
+        if (instance) {
+            return new vscode.Hover(this.describeInstance(design, instance), wordRange);
+        }
+        return null;
+    }
+
+    private describeUnit(definitions: ParsedModule[], languageId: string): vscode.MarkdownString {
+        const m = definitions[0];
+        const md = new vscode.MarkdownString();
+        md.appendMarkdown(`**${m.kind}** \`${m.name}\` — ${vscode.workspace.asRelativePath(m.uri)}`);
+        if (definitions.length > 1) {
+            md.appendMarkdown(` (${definitions.length} definitions)`);
+        }
+        const lines = [
+            ...m.parameters.map(describeParameter),
+            ...m.ports.map(describePort),
+        ];
+        if (lines.length > 0) {
+            md.appendCodeblock(lines.join('\n'), languageId);
+        }
+        return md;
+    }
+
+    private describeInstance(design: ParsedDesign, instance: InstanceRef): vscode.MarkdownString {
+        const md = new vscode.MarkdownString();
+        md.appendMarkdown(`**instance** \`${instance.instanceName}${instance.arrayRange ?? ''}\` of \`${instance.moduleName}\``);
+
+        const target = design.modulesByName.get(instance.moduleName)?.[0];
+        if (!target) {
+            md.appendMarkdown(`\n\n${instance.bindings.length} port connections (module not indexed)`);
+            return md;
+        }
+        const connected = new Set(
+            instance.bindings.filter(b => b.portName && b.expr.trim() !== '').map(b => b.portName),
+        );
+        const unbound = target.ports.filter(p => !connected.has(p.name));
+        md.appendMarkdown(`\n\n${target.ports.length - unbound.length} of ${target.ports.length} ports bound`);
+        if (unbound.length > 0) {
+            md.appendMarkdown(`; unbound: ${unbound.map(p => `\`${p.name}\``).join(', ')}`);
+        }
+        return md;
+    }
+}
+
+// -------------------- DocumentSymbolProvider --------------------
+
+const UNIT_SYMBOL_KINDS: Record<ParsedModule['kind'], vscode.SymbolKind> = {
+    module: vscode.SymbolKind.Module,
+    interface: vscode.SymbolKind.Interface,
+    package: vscode.SymbolKind.Package,
+    class: vscode.SymbolKind.Class,
+};
+
+// Outline, breadcrumbs and "Go to Symbol in Editor" from the last parse of the file.
+class VerilogDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+    constructor(private getDesign: () => ParsedDesign | null) {}
+
+    provideDocumentSymbols(
+        document: vscode.TextDocument,
+        _token: vscode.CancellationToken,
+    ): vscode.ProviderResult<vscode.DocumentSymbol[]> {
+        const units = this.getDesign()?.modulesByFile.get(document.uri.toString()) ?? [];
+        return units.map(m => {
+            const unit = new vscode.DocumentSymbol(
+                m.name,
+                m.kind,
+                UNIT_SYMBOL_KINDS[m.kind],
+                m.fullRange,
+                m.definitionRange,
+            );
+            const symbol = (
+                name: string,
+                detail: string,
+                kind: vscode.SymbolKind,
+                location: vscode.Location,
+            ) => new vscode.DocumentSymbol(name, detail, kind, location.range, location.range);
+
+            unit.children = [
+                ...m.parameters.map(p =>
+                    symbol(p.name, p.kind, vscode.SymbolKind.Constant, p.location)),
+                ...m.ports.map(p =>
+                    symbol(p.name, [p.direction, p.rangeText].filter(Boolean).join(' '),
+                        vscode.SymbolKind.Field, p.declarationLocation ?? p.location)),
+                ...m.modports.map(mp =>
+                    symbol(mp.name, 'modport', vscode.SymbolKind.Interface, mp.location)),
+                ...m.signals.map(sig =>
+                    symbol(sig.name, [sig.typeText, sig.rangeText].filter(Boolean).join(' '),
+                        vscode.SymbolKind.Variable, sig.location)),
+                ...m.instances.map(inst =>
+                    symbol(inst.instanceName, inst.moduleName, vscode.SymbolKind.Object, inst.location)),
+                ...m.packageItems.map(item =>
+                    symbol(item.name, item.kind,
+                        item.kind === 'typedef' ? vscode.SymbolKind.TypeParameter : vscode.SymbolKind.Function,
+                        item.location)),
+                ...(m.classInfo?.properties ?? []).map(prop =>
+                    symbol(prop.name, prop.typeText, vscode.SymbolKind.Field, prop.location)),
+                ...(m.classInfo?.methods ?? []).map(method =>
+                    symbol(method.name, method.kind, vscode.SymbolKind.Method, method.location)),
+            ];
+            return unit;
+        });
+    }
+}
+
+// -------------------- WorkspaceSymbolProvider --------------------
+
+const MAX_WORKSPACE_SYMBOLS = 1000;
+
+// Relaxed match as recommended for workspace symbols: the query characters appear in order.
+function matchesSymbolQuery(candidate: string, query: string): boolean {
+    const text = candidate.toLowerCase();
+    let pos = 0;
+    for (const ch of query.toLowerCase()) {
+        pos = text.indexOf(ch, pos);
+        if (pos < 0) {
+            return false;
+        }
+        pos++;
+    }
+    return true;
+}
+
+// "Go to Symbol in Workspace": design units, ports as `module.port`, instances as `parent.instance`.
+// Ports and instances are listed under the unit that declares them.
+export class VerilogWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+    constructor(private getDesign: () => ParsedDesign | null) {}
+
+    provideWorkspaceSymbols(
+        query: string,
+        token: vscode.CancellationToken,
+    ): vscode.ProviderResult<vscode.SymbolInformation[]> {
+        const design = this.getDesign();
+        if (!design) {
+            return [];
+        }
+        const results: vscode.SymbolInformation[] = [];
+        const add = (name: string, kind: vscode.SymbolKind, container: string, location: vscode.Location) => {
+            if (matchesSymbolQuery(name, query)) {
+                results.push(new vscode.SymbolInformation(name, kind, container, location));
+            }
+        };
+
+        for (const modules of design.modulesByName.values()) {
+            for (const m of modules) {
+                if (token.isCancellationRequested || results.length >= MAX_WORKSPACE_SYMBOLS) {
+                    return results;
+                }
+                add(m.name, UNIT_SYMBOL_KINDS[m.kind], '', new vscode.Location(m.uri, m.definitionRange));
+                for (const p of m.ports) {
+                    add(`${m.name}.${p.name}`, vscode.SymbolKind.Field, m.name, p.declarationLocation ?? p.location);
+                }
+                for (const inst of m.instances) {
+                    add(`${m.name}.${inst.instanceName}`, vscode.SymbolKind.Object, m.name, inst.location);
+                }
+            }
+        }
+        return results.slice(0, MAX_WORKSPACE_SYMBOLS);
+    }
+}
+
+// -------------------- CallHierarchyProvider --------------------
+
+// Call Hierarchy over instantiations: outgoing = instantiated modules, incoming = parent modules.
+class VerilogCallHierarchyProvider implements vscode.CallHierarchyProvider {
+    constructor(private getDesign: () => ParsedDesign | null) {}
+
+    prepareCallHierarchy(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+    ): vscode.ProviderResult<vscode.CallHierarchyItem[]> {
+        const design = this.getDesign();
+        const wordRange = document.getWordRangeAtPosition(position, /[a-zA-Z_]\w*/);
+        if (!design || !wordRange) {
+            return null;
+        }
+        const definitions = design.modulesByName.get(document.getText(wordRange)) ?? [];
+        return definitions.length > 0 ? definitions.map(m => this.toItem(m)) : null;
+    }
+
+    provideCallHierarchyIncomingCalls(
+        item: vscode.CallHierarchyItem,
+        _token: vscode.CancellationToken,
+    ): vscode.ProviderResult<vscode.CallHierarchyIncomingCall[]> {
+        const design = this.getDesign();
+        if (!design) {
+            return [];
+        }
+        const byParent = new Map<ParsedModule, vscode.Range[]>();
+        for (const { parent, instance } of findInstantiations(design, item.name)) {
+            const ranges = byParent.get(parent) ?? [];
+            ranges.push(instance.moduleNameLocation.range);
+            byParent.set(parent, ranges);
+        }
+        return Array.from(byParent, ([parent, ranges]) =>
+            new vscode.CallHierarchyIncomingCall(this.toItem(parent), ranges));
+    }
+
+    provideCallHierarchyOutgoingCalls(
+        item: vscode.CallHierarchyItem,
+        _token: vscode.CancellationToken,
+    ): vscode.ProviderResult<vscode.CallHierarchyOutgoingCall[]> {
+        const design = this.getDesign();
+        const unit = design?.modulesByName.get(item.name)
+            ?.find(m => m.uri.toString() === item.uri.toString());
+        if (!design || !unit) {
+            return [];
+        }
+        const byChild = new Map<string, InstanceRef[]>();
+        for (const inst of unit.instances) {
+            const instances = byChild.get(inst.moduleName) ?? [];
+            instances.push(inst);
+            byChild.set(inst.moduleName, instances);
+        }
+        return Array.from(byChild, ([moduleName, instances]) => {
+            const child = design.modulesByName.get(moduleName)?.[0];
+            // Modules outside the index are anchored at their first instantiation.
+            const to = child
+                ? this.toItem(child)
+                : new vscode.CallHierarchyItem(
+                    vscode.SymbolKind.Module,
+                    moduleName,
+                    '(external)',
+                    instances[0].moduleNameLocation.uri,
+                    instances[0].moduleNameLocation.range,
+                    instances[0].moduleNameLocation.range,
+                );
+            return new vscode.CallHierarchyOutgoingCall(to, instances.map(inst => inst.moduleNameLocation.range));
+        });
+    }
+
+    private toItem(m: ParsedModule): vscode.CallHierarchyItem {
+        return new vscode.CallHierarchyItem(
+            UNIT_SYMBOL_KINDS[m.kind],
+            m.name,
+            vscode.workspace.asRelativePath(m.uri),
+            m.uri,
+            m.fullRange,
+            m.definitionRange,
+        );
+    }
+}
+
+// -------------------- RenameProvider --------------------
+
+export type RenameTarget =
+    | { kind: 'module'; name: string; range: vscode.Range }
+    | { kind: 'port'; moduleName: string; name: string; range: vscode.Range };
+
+// Range of the whole word name on the line of start, at or after start.
+function findNameRange(document: vscode.TextDocument, start: vscode.Position, name: string): vscode.Range | undefined {
+    const text = document.lineAt(start.line).text;
+    const re = new RegExp(`\\b${name}\\b`, 'g');
+    re.lastIndex = start.character;
+    const match = re.exec(text);
+    return match
+        ? new vscode.Range(start.line, match.index, start.line, match.index + name.length)
+        : undefined;
+}
+
+// Whole-word uses of name in range, skipping comments, strings, macro usages and
+// selects such as "u_child.name", ".name(" bindings and "pkg::name".
+function findIdentifierRanges(document: vscode.TextDocument, range: vscode.Range, name: string): vscode.Range[] {
+    const base = document.offsetAt(range.start);
+    const text = document.getText(range)
+        .replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\\n])*"/g, m => ' '.repeat(m.length));
+    const ranges: vscode.Range[] = [];
+    for (const m of text.matchAll(new RegExp(`\\b${name}\\b`, 'g'))) {
+        const index = m.index ?? 0;
+        if (/[.`$]$|::$/.test(text.slice(Math.max(0, index - 64), index).trimEnd())) {
+            continue;
+        }
+        const start = document.positionAt(base + index);
+        ranges.push(new vscode.Range(start, start.translate(0, name.length)));
+    }
+    return ranges;
+}
+
+// Reserved words of IEEE 1800-2017 (a superset of the Verilog ones); none can name a module or port.
+const RESERVED_WORDS = new Set([
+    'accept_on', 'alias', 'always', 'always_comb', 'always_ff', 'always_latch', 'and', 'assert', 'assign',
+    'assume', 'automatic', 'before', 'begin', 'bind', 'bins', 'binsof', 'bit', 'break', 'buf', 'bufif0',
+    'bufif1', 'byte', 'case', 'casex', 'casez', 'cell', 'chandle', 'checker', 'class', 'clocking', 'cmos',
+    'config', 'const', 'constraint', 'context', 'continue', 'cover', 'covergroup', 'coverpoint', 'cross',
+    'deassign', 'default', 'defparam', 'design', 'disable', 'dist', 'do', 'edge', 'else', 'end', 'endcase',
+    'endchecker', 'endclass', 'endclocking', 'endconfig', 'endfunction', 'endgenerate', 'endgroup',
+    'endinterface', 'endmodule', 'endpackage', 'endprimitive', 'endprogram', 'endproperty', 'endspecify',
+    'endsequence', 'endtable', 'endtask', 'enum', 'event', 'eventually', 'expect', 'export', 'extends',
+    'extern', 'final', 'first_match', 'for', 'force', 'foreach', 'forever', 'fork', 'forkjoin', 'function',
+    'generate', 'genvar', 'global', 'highz0', 'highz1', 'if', 'iff', 'ifnone', 'ignore_bins', 'illegal_bins',
+    'implements', 'implies', 'import', 'incdir', 'include', 'initial', 'inout', 'input', 'inside', 'instance',
+    'int', 'integer', 'interconnect', 'interface', 'intersect', 'join', 'join_any', 'join_none', 'large',
+    'let', 'liblist', 'library', 'local', 'localparam', 'logic', 'longint', 'macromodule', 'matches',
+    'medium', 'modport', 'module', 'nand', 'negedge', 'nettype', 'new', 'nexttime', 'nmos', 'nor',
+    'noshowcancelled', 'not', 'notif0', 'notif1', 'null', 'or', 'output', 'package', 'packed', 'parameter',
+    'pmos', 'posedge', 'primitive', 'priority', 'program', 'property', 'protected', 'pull0', 'pull1',
+    'pulldown', 'pullup', 'pulsestyle_ondetect', 'pulsestyle_onevent', 'pure', 'rand', 'randc', 'randcase',
+    'randsequence', 'rcmos', 'real', 'realtime', 'ref', 'reg', 'reject_on', 'release', 'repeat', 'restrict',
+    'return', 'rnmos', 'rpmos', 'rtran', 'rtranif0', 'rtranif1', 's_always', 's_eventually', 's_nexttime',
+    's_until', 's_until_with', 'scalared', 'sequence', 'shortint', 'shortreal', 'showcancelled', 'signed',
+    'small', 'soft', 'solve', 'specify', 'specparam', 'static', 'string', 'strong', 'strong0', 'strong1',
+    'struct', 'super', 'supply0', 'supply1', 'sync_accept_on', 'sync_reject_on', 'table', 'tagged', 'task',
+    'this', 'throughout', 'time', 'timeprecision', 'timeunit', 'tran', 'tranif0', 'tranif1', 'tri', 'tri0',
+    'tri1', 'triand', 'trior', 'trireg', 'type', 'typedef', 'union', 'unique', 'unique0', 'unsigned',
+    'until', 'until_with', 'untyped', 'use', 'uwire', 'var', 'vectored', 'virtual', 'void', 'wait',
+    'wait_order', 'wand', 'weak', 'weak0', 'weak1', 'while', 'wildcard', 'wire', 'with', 'within', 'wor',
+    'xnor', 'xor',
+]);
+
+// Modules with this name. Interfaces are left out: their name is also used as a port type,
+// in "virtual" declarations and in class members, which the index does not track.
+function renamableModules(design: ParsedDesign, name: string): ParsedModule[] {
+    return (design.modulesByName.get(name) ?? []).filter(m => m.kind === 'module');
+}
+
+// Units whose ports can be renamed.
+function portOwners(design: ParsedDesign, name: string): ParsedModule[] {
+    return (design.modulesByName.get(name) ?? []).filter(m => m.kind === 'module' || m.kind === 'interface');
+}
+
+export interface RenameEdit {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    newText: string;
+}
+
+// Edits that rename target to newName: a module's declaration, end label and
+// instantiations, or a port's declarations, its uses in the module body, and
+// connections in instances of the module. Empty ranges are insertions.
+export async function computeRenameEdits(
+    design: ParsedDesign,
+    target: RenameTarget,
+    newName: string,
+    openDocument: (uri: vscode.Uri) => Thenable<vscode.TextDocument>,
+): Promise<RenameEdit[]> {
+    const edits: RenameEdit[] = [];
+    const seen = new Set<string>();
+    const documents = new Map<string, vscode.TextDocument>();
+
+    const getDocument = async (uri: vscode.Uri) => {
+        let doc = documents.get(uri.toString());
+        if (!doc) {
+            doc = await openDocument(uri);
+            documents.set(uri.toString(), doc);
+        }
+        return doc;
+    };
+    const replaceRange = (uri: vscode.Uri, range: vscode.Range, newText: string) => {
+        const rangeKey = `${uri.toString()}:${range.start.line}:${range.start.character}`;
+        if (!seen.has(rangeKey)) {
+            seen.add(rangeKey);
+            edits.push({ uri, range, newText });
+        }
+    };
+    // Locations can be stale or point at a macro usage: only edit where the old name is found.
+    const replaceAt = async (loc: vscode.Location, replacement = newName) => {
+        const range = findNameRange(await getDocument(loc.uri), loc.range.start, target.name);
+        if (range) {
+            replaceRange(loc.uri, range, replacement);
+        }
+    };
+    // ".*" cannot follow a rename: connect the port explicitly in front of it.
+    const connectBeforeWildcard = (inst: InstanceRef, portName: string, expr: string) => {
+        if (inst.wildcardLocation) {
+            const { uri, range } = inst.wildcardLocation;
+            edits.push({ uri, range: new vscode.Range(range.start, range.start), newText: `.${portName}(${expr}), ` });
+        }
+    };
+
+    if (target.kind === 'module') {
+        for (const m of renamableModules(design, target.name)) {
+            await replaceAt(new vscode.Location(m.uri, m.definitionRange));
+            // Optional "endmodule : name" label.
+            const doc = await getDocument(m.uri);
+            const end = m.fullRange.end;
+            const rest = doc.lineAt(end.line).text.slice(end.character);
+            if (new RegExp(`^\\s*:\\s*${target.name}\\b`).test(rest)) {
+                await replaceAt(new vscode.Location(m.uri, end));
+            }
+        }
+        for (const { instance } of findInstantiations(design, target.name)) {
+            await replaceAt(instance.moduleNameLocation);
+        }
+        return edits;
+    }
+
+    for (const m of portOwners(design, target.moduleName)) {
+        for (const p of m.ports.filter(port => port.name === target.name)) {
+            await replaceAt(p.location);
+            if (p.declarationLocation) {
+                await replaceAt(p.declarationLocation);
+            }
+        }
+        // Uses in the body, including implicit connections of the unit's own instances.
+        const doc = await getDocument(m.uri);
+        for (const inst of m.instances) {
+            for (const b of inst.bindings.filter(binding => binding.expr === target.name)) {
+                if (b.implicit === 'name') {
+                    await replaceAt(b.location, `${target.name}(${newName})`);
+                } else if (b.implicit === 'wildcard') {
+                    connectBeforeWildcard(inst, b.portName, newName);
+                }
+            }
+        }
+        for (const range of findIdentifierRanges(doc, m.fullRange, target.name)) {
+            replaceRange(m.uri, range, newName);
+        }
+    }
+    for (const { instance } of findInstantiations(design, target.moduleName)) {
+        for (const b of instance.bindings) {
+            if (b.portName !== target.name || b.position !== undefined) {
+                continue;
+            }
+            if (b.implicit === 'wildcard') {
+                connectBeforeWildcard(instance, newName, b.expr);
+                continue;
+            }
+            // ".clk" keeps its connection as ".new_clk(clk)".
+            await replaceAt(b.location, b.implicit === 'name' ? `${newName}(${b.expr})` : newName);
+        }
+    }
+    return edits;
+}
+
+// Renames a module or a port of a module or interface; see computeRenameEdits.
+class VerilogRenameProvider implements vscode.RenameProvider {
+    constructor(private getDesign: () => ParsedDesign | null) {}
+
+    prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken,
+    ): vscode.ProviderResult<{ range: vscode.Range; placeholder: string }> {
+        const target = this.resolveTarget(document, position);
+        return { range: target.range, placeholder: target.name };
+    }
+
+    async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        _token: vscode.CancellationToken,
+    ): Promise<vscode.WorkspaceEdit> {
+        if (!/^[a-zA-Z_]\w*$/.test(newName)) {
+            throw new Error(`"${newName}" is not a valid Verilog identifier.`);
+        }
+        if (RESERVED_WORDS.has(newName)) {
+            throw new Error(`"${newName}" is a reserved word.`);
+        }
+        const target = this.resolveTarget(document, position);
+        const design = this.getDesign();
+        if (!design) {
+            throw new Error('The design is not indexed yet.');
+        }
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+            label: `Rename ${target.kind} "${target.name}" to "${newName}"`,
+            needsConfirmation: true,
+        };
+        const edit = new vscode.WorkspaceEdit();
+        const edits = await computeRenameEdits(design, target, newName, uri => vscode.workspace.openTextDocument(uri));
+        for (const { uri, range, newText } of edits) {
+            edit.replace(uri, range, newText, metadata);
+        }
+        return edit;
+    }
+
+    private resolveTarget(document: vscode.TextDocument, position: vscode.Position): RenameTarget {
+        const design = this.getDesign();
+        const range = document.getWordRangeAtPosition(position, /[a-zA-Z_]\w*/);
+        if (!design || !range) {
+            throw new Error('Only module and port names can be renamed.');
+        }
+        const name = document.getText(range);
+        const enclosing = (design.modulesByFile.get(document.uri.toString()) ?? [])
+            .find(m => m.fullRange.contains(position));
+
+        // ".port(" in an instantiation inside this unit.
+        const instance = enclosing?.instances.find(inst =>
+            inst.bindings.some(b => b.position === undefined && b.location.range.start.isEqual(range.start)));
+        if (instance) {
+            if (portOwners(design, instance.moduleName).length === 0) {
+                throw new Error(`Module "${instance.moduleName}" is not indexed.`);
+            }
+            return { kind: 'port', moduleName: instance.moduleName, name, range };
+        }
+
+        if (renamableModules(design, name).length > 0) {
+            return { kind: 'module', name, range };
+        }
+
+        // A port at its declaration in this unit.
+        if (
+            enclosing &&
+            (enclosing.kind === 'module' || enclosing.kind === 'interface') &&
+            enclosing.ports.some(p =>
+                p.name === name &&
+                [p.location, p.declarationLocation].some(loc => loc?.range.start.line === range.start.line))
+        ) {
+            return { kind: 'port', moduleName: enclosing.name, name, range };
+        }
+        throw new Error('Only module and port names can be renamed.');
+    }
+}
+
+// -------------------- Diagnostics --------------------
+
+// Built-in gate and switch primitives are instantiated like modules but never defined.
+const GATE_PRIMITIVES = new Set([
+    'and', 'nand', 'or', 'nor', 'xor', 'xnor', 'buf', 'not',
+    'bufif0', 'bufif1', 'notif0', 'notif1', 'pullup', 'pulldown',
+    'nmos', 'pmos', 'cmos', 'rnmos', 'rpmos', 'rcmos',
+    'tran', 'tranif0', 'tranif1', 'rtran', 'rtranif0', 'rtranif1',
+]);
+
+type DiagnosticsByFile = Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>;
+
+function addDiagnostic(
+    result: DiagnosticsByFile,
+    loc: vscode.Location,
+    length: number,
+    message: string,
+    severity: vscode.DiagnosticSeverity,
+    code: string,
+): vscode.Diagnostic {
+    const key = loc.uri.toString();
+    const entry = result.get(key) ?? { uri: loc.uri, diagnostics: [] };
+    const start = loc.range.start;
+    const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(start, start.translate(0, length)),
+        message,
+        severity,
+    );
+    diagnostic.source = 'vetree';
+    diagnostic.code = code;
+    entry.diagnostics.push(diagnostic);
+    result.set(key, entry);
+    return diagnostic;
+}
+
+// Unknown modules, unknown or duplicate port bindings and unconnected inputs of every instance.
+function collectConnectivityDiagnostics(design: ParsedDesign, result: DiagnosticsByFile): void {
+    for (const units of design.modulesByFile.values()) {
+        for (const unit of units) {
+            for (const inst of unit.instances) {
+                const nameLoc = inst.moduleNameLocation;
+                const target = design.modulesByName.get(inst.moduleName)?.[0];
+                if (!target) {
+                    if (!GATE_PRIMITIVES.has(inst.moduleName)) {
+                        addDiagnostic(result, nameLoc, inst.moduleName.length,
+                            `Unknown module "${inst.moduleName}".`,
+                            vscode.DiagnosticSeverity.Warning, 'unknown-module');
+                    }
+                    continue;
+                }
+
+                const portNames = new Set(target.ports.map(p => p.name));
+                const bound = new Set<string>();
+                for (const b of inst.bindings) {
+                    if (!b.portName) {
+                        continue;
+                    }
+                    const named = b.position === undefined && b.implicit !== 'wildcard';
+                    if (named && !portNames.has(b.portName)) {
+                        addDiagnostic(result, b.location, b.portName.length,
+                            `${target.kind} "${target.name}" has no port "${b.portName}".`,
+                            vscode.DiagnosticSeverity.Error, 'unknown-port');
+                    } else if (named && bound.has(b.portName)) {
+                        addDiagnostic(result, b.location, b.portName.length,
+                            `Port "${b.portName}" is connected more than once.`,
+                            vscode.DiagnosticSeverity.Error, 'duplicate-port');
+                    }
+                    bound.add(b.portName);
+                }
+
+                const unbound = target.ports.filter(p => p.direction === 'input' && !bound.has(p.name));
+                for (const p of unbound) {
+                    addDiagnostic(result, nameLoc, inst.moduleName.length,
+                        `Input port "${p.name}" of "${target.name}" is not connected in instance "${inst.instanceName}".`,
+                        vscode.DiagnosticSeverity.Warning, 'unconnected-input');
+                }
+            }
+        }
+    }
+}
+
+// Parameter values of a unit from their defaults; overridden parameters take the given
+// values, and an override that cannot be evaluated leaves the parameter unknown.
+function evaluateParameters(unit: ParsedModule, overrides = new Map<string, number | undefined>()): ParameterValues {
+    const values: ParameterValues = new Map();
+    for (const p of unit.parameters) {
+        const value = p.kind === 'parameter' && overrides.has(p.name)
+            ? overrides.get(p.name)
+            : evaluateConstant(p.defaultValue ?? '', values);
+        if (value !== undefined) {
+            values.set(p.name, value);
+        }
+    }
+    return values;
+}
+
+// Connections whose expression width differs from the port width after parameter substitution.
+function collectWidthDiagnostics(design: ParsedDesign, result: DiagnosticsByFile): void {
+    for (const units of design.modulesByFile.values()) {
+        for (const unit of units) {
+            if (unit.instances.length === 0) {
+                continue;
+            }
+            const parentParams = evaluateParameters(unit);
+            const declarations = new Map<string, { decl: WidthDeclaration; location: vscode.Location }>();
+            for (const p of unit.ports) {
+                declarations.set(p.name, { decl: p, location: p.declarationLocation ?? p.location });
+            }
+            for (const sig of unit.signals) {
+                declarations.set(sig.name, { decl: sig, location: sig.location });
+            }
+            const lookup = (name: string) => declarations.get(name)?.decl;
+
+            for (const inst of unit.instances) {
+                const target = design.modulesByName.get(inst.moduleName)?.[0];
+                if (!target) {
+                    continue;
+                }
+                const overrides = new Map<string, number | undefined>();
+                for (const pb of inst.parameterBindings) {
+                    const name = pb.paramName || resolvePositionalParameter(target, pb.position);
+                    if (name) {
+                        overrides.set(name, evaluateConstant(pb.expr, parentParams));
+                    }
+                }
+                const targetParams = evaluateParameters(target, overrides);
+
+                for (const b of inst.bindings) {
+                    const port = target.ports.find(p => p.name === b.portName);
+                    // A port without a direction was never declared, so its width is unknown.
+                    if (!port || port.direction === 'interface' || port.direction === 'unknown' || !b.expr.trim()) {
+                        continue;
+                    }
+                    const portWidth = declarationWidth(port, targetParams);
+                    const exprWidth = expressionWidth(b.expr, lookup, parentParams);
+                    if (portWidth === undefined || exprWidth === undefined || portWidth === exprWidth) {
+                        continue;
+                    }
+
+                    const length = b.implicit === 'wildcard' ? 2 : b.position !== undefined ? b.expr.length : b.portName.length;
+                    const diagnostic = addDiagnostic(result, b.location, length,
+                        `Port "${port.name}" of "${target.name}" is ${portWidth} bit(s) wide ` +
+                        `but "${b.expr}" is ${exprWidth} bit(s).`,
+                        vscode.DiagnosticSeverity.Warning, 'width-mismatch');
+                    diagnostic.relatedInformation = [
+                        new vscode.DiagnosticRelatedInformation(
+                            port.declarationLocation ?? port.location,
+                            `Port "${port.name}" declared here`,
+                        ),
+                    ];
+                    const signalName = /^([a-zA-Z_]\w*)/.exec(b.expr.trim())?.[1];
+                    const declared = signalName ? declarations.get(signalName) : undefined;
+                    if (declared) {
+                        diagnostic.relatedInformation.push(new vscode.DiagnosticRelatedInformation(
+                            declared.location,
+                            `"${signalName}" declared here`,
+                        ));
+                    }
+                }
+            }
+        }
+    }
+}
+
+// Every definition of a duplicated module, interface or package name, linked to the others.
+function collectDuplicateDiagnostics(design: ParsedDesign, result: DiagnosticsByFile): void {
+    for (const [name, definitions] of design.modulesByName) {
+        const units = definitions.filter(m => m.kind !== 'class');
+        if (units.length < 2) {
+            continue;
+        }
+        const resolved = resolvedDefinitions(design, name);
+        const chosen = resolved.length === 1 ? resolved[0] : undefined;
+        for (const m of units) {
+            const diagnostic = addDiagnostic(
+                result,
+                new vscode.Location(m.uri, m.definitionRange),
+                name.length,
+                `${m.kind} "${name}" is defined ${units.length} times` +
+                (chosen ? `; using ${vscode.workspace.asRelativePath(chosen.uri)}.` : '.'),
+                chosen ? vscode.DiagnosticSeverity.Information : vscode.DiagnosticSeverity.Warning,
+                'duplicate-module',
+            );
+            diagnostic.relatedInformation = units
+                .filter(other => other !== m)
+                .map(other => new vscode.DiagnosticRelatedInformation(
+                    new vscode.Location(other.uri, other.definitionRange),
+                    `Also defined here${other === chosen ? ' (chosen)' : ''}`,
+                ));
+        }
+    }
+}
+
+// Unbalanced conditionals, unresolved includes and include cycles found by the preprocessor.
+function collectPreprocessorDiagnostics(design: ParsedDesign, result: DiagnosticsByFile): void {
+    for (const problems of design.problemsByFile.values()) {
+        for (const problem of problems) {
+            const range = problem.location.range;
+            addDiagnostic(
+                result,
+                problem.location,
+                range.isSingleLine ? range.end.character - range.start.character : 0,
+                problem.message,
+                problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+                'preprocessor',
+            );
+        }
+    }
+}
+
+// Quick fix on duplicate definitions: pick the one that wins.
+class VerilogCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext,
+        _token: vscode.CancellationToken,
+    ): vscode.CodeAction[] {
+        return context.diagnostics
+            .filter(d => d.source === 'vetree' && d.code === 'duplicate-module')
+            .map(d => {
+                const name = document.getText(d.range);
+                const action = new vscode.CodeAction(
+                    `Choose which definition of "${name}" to use`,
+                    vscode.CodeActionKind.QuickFix,
+                );
+                action.command = {
+                    command: 'vetree-verilog.chooseModuleDefinition',
+                    title: action.title,
+                    arguments: [name],
+                };
+                action.diagnostics = [d];
+                return action;
+            });
+    }
+}
+
+// -------------------- Instantiation templates --------------------
+
+// Escape text for use inside a snippet placeholder.
+function escapeSnippetText(text: string): string {
+    return text.replace(/[$}\\]/g, '\\$&');
+}
+
+// Instantiation of m with aligned ".port (signal)" lines and direction/width comments.
+// As a snippet, the instance name, parameter values and signals are tab stops.
+export function buildInstantiation(m: ParsedModule, asSnippet: boolean): string {
+    const indent = asSnippet ? '\t' : '    ';
+    let tabStop = 1;
+    const field = (value: string) => asSnippet ? `\${${tabStop++}:${escapeSnippetText(value)}}` : value;
+
+    const instanceName = field(`u_${m.name}`);
+    const params = m.parameters.filter(p => p.kind === 'parameter');
+    const paramWidth = Math.max(0, ...params.map(p => p.name.length));
+    const paramLines = params.map((p, i) => {
+        const comma = i < params.length - 1 ? ',' : '';
+        return `${indent}.${p.name.padEnd(paramWidth)} (${field(p.defaultValue ?? '')})${comma}`;
+    });
+
+    // Comments line up on the visible text, not on the placeholder syntax.
+    const portWidth = Math.max(0, ...m.ports.map(p => p.name.length));
+    const connectionWidth = Math.max(0, ...m.ports.map(p => p.name.length + 3));
+    const portLines = m.ports.map((p, i) => {
+        const comma = i < m.ports.length - 1 ? ',' : '';
+        const padding = ' '.repeat(connectionWidth - `(${p.name})${comma}`.length);
+        const comment = p.direction === 'interface'
+            ? `${p.interfaceName ?? 'interface'}${p.modportName ? `.${p.modportName}` : ''}`
+            : [p.direction, p.rangeText].filter(Boolean).join(' ');
+        return `${indent}.${p.name.padEnd(portWidth)} (${field(p.name)})${comma}${padding} // ${comment}`;
+    });
+
+    const header = params.length > 0
+        ? [`${m.name} #(`, ...paramLines, `) ${instanceName} (`]
+        : [`${m.name} ${instanceName} (`];
+    return [...header, ...portLines, ');'].join('\n') + (asSnippet ? '\n$0' : '\n');
+}
+
 // -------------------- Shared index + auto refresh --------------------
 
 export function activate(context: vscode.ExtensionContext) {
     const backend = new TsRegexParserBackend();
+    context.subscriptions.push(backend);
+    const parseCacheReady = ParseCache.load(context.storageUri);
 
     const projectTreeProvider = new VerilogProjectTreeProvider();
     const hierarchyProvider = new VerilogHierarchyProvider();
     const connectionsProvider = new DirectConnectionsProvider();
+    const classesProvider = new VerilogClassesProvider();
 
     const projectTreeView = vscode.window.createTreeView('vetreeVerilogView', {
         treeDataProvider: projectTreeProvider,
@@ -1076,16 +2704,43 @@ export function activate(context: vscode.ExtensionContext) {
         treeDataProvider: connectionsProvider,
         showCollapseAll: false,
     });
-    context.subscriptions.push(projectTreeView, hierarchyTreeView, connectionsTreeView);
+    const classesTreeView = vscode.window.createTreeView('vetreeVerilogClassesView', {
+        treeDataProvider: classesProvider,
+        showCollapseAll: true,
+    });
+    context.subscriptions.push(projectTreeView, hierarchyTreeView, connectionsTreeView, classesTreeView);
 
     let refreshTimer: NodeJS.Timeout | undefined;
     let refreshInProgress = false;
     let refreshPending = false;
-    let lastDuplicateWarning = '';
+    let fileRefreshTimer: NodeJS.Timeout | undefined;
+    let indexState: IndexState | null = null;
+    const pendingFileChanges = new Map<string, { uri: vscode.Uri; deleted: boolean }>();
     let lastTopModuleInfo = '';
     let endpointA: { parentModule: string; instance: string } | null = null;
     let endpointB: { parentModule: string; instance: string } | null = null;
 
+    const diagnosticCollection = vscode.languages.createDiagnosticCollection('vetree-verilog');
+    context.subscriptions.push(diagnosticCollection);
+
+    const publishDiagnostics = (design: ParsedDesign | null) => {
+        diagnosticCollection.clear();
+        const enabled = vscode.workspace.getConfiguration('vetree-verilog').get<boolean>('diagnostics') ?? true;
+        if (!design || !enabled) {
+            return;
+        }
+        const result: DiagnosticsByFile = new Map();
+        collectConnectivityDiagnostics(design, result);
+        collectWidthDiagnostics(design, result);
+        collectDuplicateDiagnostics(design, result);
+        collectPreprocessorDiagnostics(design, result);
+        diagnosticCollection.set(Array.from(result.values(), e => [e.uri, e.diagnostics]));
+    };
+
+    const readPreferredDefinitions = () => new Map(Object.entries(
+        vscode.workspace.getConfiguration('vetree-verilog').get<Record<string, string>>('preferredDefinitions') ?? {},
+    ));
+
     const isDebugEnabled = () =>
         vscode.workspace.getConfiguration('vetree-verilog').get<boolean>('debugLogging') ?? false;
 
@@ -1101,9 +2756,12 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
         refreshInProgress = true;
+        // A full pass covers any per-file changes queued so far.
+        pendingFileChanges.clear();
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders || workspaceFolders.length === 0) {
             currentDesign = null;
+            indexState = null;
             const maxHierarchyDepth = vscode.workspace
                 .getConfiguration('vetree-verilog')
                 .get<number>('maxHierarchyDepth') ?? 100;
@@ -1112,8 +2770,18 @@ export function activate(context: vscode.ExtensionContext) {
             const topModule = config.get<string>('hierarchyTopModule')?.trim() || undefined;
             const filterText = config.get<string>('hierarchyFilter') ?? '';
             const projectFilter = config.get<string>('projectTreeFilter') ?? '';
+            const expandArrays = config.get<boolean>('expandInstanceArrays') ?? false;
             projectTreeProvider.update([], null, projectFilter);
-            hierarchyProvider.update(null, maxHierarchyDepth, resolveStrategy, topModule, filterText);
+            classesProvider.update(null);
+            publishDiagnostics(null);
+            hierarchyProvider.update(
+                null,
+                maxHierarchyDepth,
+                resolveStrategy,
+                topModule,
+                filterText,
+                expandArrays,
+            );
             refreshInProgress = false;
             return;
         }
@@ -1130,12 +2798,13 @@ export function activate(context: vscode.ExtensionContext) {
         const topModuleConfig = config.get<string>('hierarchyTopModule')?.trim() || undefined;
         const filterText = config.get<string>('hierarchyFilter') ?? '';
         const projectFilter = config.get<string>('projectTreeFilter') ?? '';
+        const expandArrays = config.get<boolean>('expandInstanceArrays') ?? false;
 
         const files = filelist.files.length > 0
             ? filelist.files
             : await vscode.workspace.findFiles(
                 '**/*.{v,sv}',
-                '**/{.git,node_modules,out,dist,build}/**',
+                `**/{${SCAN_EXCLUDE_DIRS.join(',')}}/**`,
             );
 
         const { filteredFiles } = await filterFilesBySize(files, maxFileSizeMB);
@@ -1154,14 +2823,32 @@ export function activate(context: vscode.ExtensionContext) {
             `preprocess=${enablePreprocess}, maxDepth=${maxHierarchyDepth}`,
         );
 
+        backend.configureWorkers(config.get<number>('parserWorkers') ?? 0);
+        const parseCache = await parseCacheReady;
         const design = await backend.parseFiles(filteredFiles, filelist.defines, {
             enablePreprocess,
             logDebug,
             includeDirs: filelist.includeDirs,
+            cache: parseCache,
         });
+        setPreferredDefinitions(design, readPreferredDefinitions());
         currentDesign = design;
-
+        const cacheStats = parseCache.takeStats();
+        logDebug(`Parse cache: hits=${cacheStats.hits}, misses=${cacheStats.misses}`);
+        parseCache.retain(filteredFiles);
+        parseCache.save().catch(err => console.warn('Failed to save parse cache:', err));
+        indexState = {
+            files: filteredFiles,
+            fromFilelist: filelist.files.length > 0,
+            defines: filelist.defines,
+            includeDirs: filelist.includeDirs,
+            enablePreprocess,
+            maxFileSizeMB,
+            skipHierarchyBuild,
+        };
         projectTreeProvider.update(filteredFiles, design, projectFilter);
+        classesProvider.update(design);
+        publishDiagnostics(design);
         if (skipHierarchyBuild) {
             logDebug('Hierarchy build skipped by configuration.');
             hierarchyProvider.update(null, maxHierarchyDepth, resolveStrategy, topModule, filterText);
@@ -1175,17 +2862,15 @@ export function activate(context: vscode.ExtensionContext) {
                     .map(([name, mods]) => `${name}(${mods.length})`)
                     .join(', ');
                 logDebug(`Duplicate module names: ${duplicates.length} (top: ${top})`);
-                const key = `${duplicates.length}:${topModule ?? ''}:${resolveStrategy}`;
-                if (key !== lastDuplicateWarning) {
-                    lastDuplicateWarning = key;
-                    vscode.window.showInformationMessage(
-                        `Multiple definitions found for ${duplicates.length} module(s). ` +
-                        `Consider setting "vetree-verilog.hierarchyResolve": "first" ` +
-                        `or "vetree-verilog.hierarchyTopModule".`,
-                    );
-                }
             }
-            hierarchyProvider.update(design, maxHierarchyDepth, resolveStrategy, topModule, filterText);
+            hierarchyProvider.update(
+                design,
+                maxHierarchyDepth,
+                resolveStrategy,
+                topModule,
+                filterText,
+                expandArrays,
+            );
         }
 
         const refreshEnd = Date.now();
@@ -1212,6 +2897,128 @@ export function activate(context: vscode.ExtensionContext) {
         }, 300);
     };
 
+    const incrementalRefresh = async () => {
+        if (refreshInProgress) {
+            scheduleFileRefresh();
+            return;
+        }
+        const state = indexState;
+        const design = currentDesign;
+        if (!state || !design) {
+            pendingFileChanges.clear();
+            scheduleFullRefresh();
+            return;
+        }
+        const changes = Array.from(pendingFileChanges.values());
+        pendingFileChanges.clear();
+        if (changes.length === 0) {
+            return;
+        }
+
+        refreshInProgress = true;
+        const refreshStart = Date.now();
+        const parseCache = await parseCacheReady;
+        let needsFullRefresh = false;
+        const files = [...state.files];
+        const changedUris: vscode.Uri[] = [];
+        const changedNames = new Set<string>();
+
+        try {
+            for (const change of changes) {
+                const key = change.uri.toString();
+                const fileIndex = files.findIndex(f => f.toString() === key);
+                if (fileIndex === -1) {
+                    if (change.deleted || isExcludedFromScan(change.uri)) {
+                        continue;
+                    }
+                    if (state.fromFilelist) {
+                        // A new file may match a glob in the filelist.
+                        needsFullRefresh = true;
+                        continue;
+                    }
+                }
+
+                let parsed: ParsedFile = { modules: [], problems: [], includes: [] };
+                let keep = !change.deleted;
+                if (keep) {
+                    try {
+                        const stat = await vscode.workspace.fs.stat(change.uri);
+                        if (state.maxFileSizeMB > 0 && stat.size > state.maxFileSizeMB * 1024 * 1024) {
+                            logDebug(
+                                `Incremental refresh: skipped ${vscode.workspace.asRelativePath(change.uri, false)} ` +
+                                `(larger than ${state.maxFileSizeMB} MB)`,
+                            );
+                            keep = false;
+                        } else {
+                            parsed = await backend.parseFile(change.uri, state.defines, {
+                                enablePreprocess: state.enablePreprocess,
+                                logDebug,
+                                includeDirs: state.includeDirs,
+                                cache: parseCache,
+                            });
+                        }
+                    } catch (err) {
+                        console.warn(`Failed to reparse ${change.uri.fsPath}:`, err);
+                        keep = false;
+                    }
+                }
+
+                replaceFileModules(design, change.uri, parsed.modules, parsed.problems)
+                    .forEach(n => changedNames.add(n));
+                changedUris.push(change.uri);
+                if (keep && fileIndex === -1) {
+                    files.push(change.uri);
+                } else if (!keep && fileIndex !== -1) {
+                    files.splice(fileIndex, 1);
+                }
+            }
+
+            if (!needsFullRefresh && changedUris.length > 0) {
+                state.files = files;
+                // Units in other files can change too, e.g. ports reclassified as interface ports.
+                const refreshedUris = new Map(changedUris.map(uri => [uri.toString(), uri]));
+                for (const name of changedNames) {
+                    for (const m of design.modulesByName.get(name) ?? []) {
+                        refreshedUris.set(m.uri.toString(), m.uri);
+                    }
+                }
+                projectTreeProvider.refreshFiles(files, design, [...refreshedUris.values()]);
+                classesProvider.update(design);
+                publishDiagnostics(design);
+                if (!state.skipHierarchyBuild) {
+                    hierarchyProvider.refreshModules(design, changedNames);
+                }
+                logDebug(
+                    `Incremental refresh: files=${changedUris.length}, modules=${changedNames.size}, ` +
+                    `time=${Date.now() - refreshStart}ms`,
+                );
+                parseCache.takeStats();
+                parseCache.save().catch(err => console.warn('Failed to save parse cache:', err));
+            }
+        } finally {
+            refreshInProgress = false;
+        }
+
+        if (needsFullRefresh || refreshPending) {
+            refreshPending = false;
+            scheduleFullRefresh();
+        }
+    };
+
+    const scheduleFileRefresh = (uri?: vscode.Uri, deleted = false) => {
+        if (uri) {
+            pendingFileChanges.set(uri.toString(), { uri, deleted });
+        }
+        if (fileRefreshTimer) {
+            clearTimeout(fileRefreshTimer);
+        }
+        fileRefreshTimer = setTimeout(() => {
+            incrementalRefresh().catch(err =>
+                console.error('Failed to update Verilog index:', err),
+            );
+        }, 300);
+    };
+
     // Manual refresh commands
     const refreshTreeCmd = vscode.commands.registerCommand(
         'vetree-verilog.refreshTree',
@@ -1224,6 +3031,17 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(refreshTreeCmd, refreshHierarchyCmd);
 
+    const clearParseCacheCmd = vscode.commands.registerCommand(
+        'vetree-verilog.clearParseCache',
+        async () => {
+            const parseCache = await parseCacheReady;
+            await parseCache.clear();
+            vscode.window.showInformationMessage('Verilog parse cache cleared.');
+            scheduleFullRefresh();
+        },
+    );
+    context.subscriptions.push(clearParseCacheCmd);
+
     const showModulePortsCmd = vscode.commands.registerCommand(
         'vetree-verilog.showModulePorts',
         async (item: VerilogNode | HierarchyNode) => {
@@ -1237,7 +3055,10 @@ export function activate(context: vscode.ExtensionContext) {
 
             if (item instanceof HierarchyNode) {
                 moduleName = item.moduleName;
-            } else if (item instanceof VerilogNode && item.contextValue === 'verilogModule') {
+            } else if (
+                item instanceof VerilogNode &&
+                (item.contextValue === 'verilogModule' || item.contextValue === 'verilogInterface')
+            ) {
                 moduleName = item.moduleName;
             }
 
@@ -1246,8 +3067,8 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const modules = design.modulesByName.get(moduleName);
-            if (!modules || modules.length === 0) {
+            const modules = resolvedDefinitions(design, moduleName);
+            if (modules.length === 0) {
                 vscode.window.showInformationMessage(`Module "${moduleName}" not found in index.`);
                 return;
             }
@@ -1290,7 +3111,7 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const loc = selected.port.location;
+            const loc = selected.port.declarationLocation ?? selected.port.location;
             const doc = await vscode.workspace.openTextDocument(loc.uri);
             const editor = await vscode.window.showTextDocument(doc);
             editor.selection = new vscode.Selection(loc.range.start, loc.range.start);
@@ -1300,6 +3121,51 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(showModulePortsCmd);
 
+    const showInstantiationsCmd = vscode.commands.registerCommand(
+        'vetree-verilog.showInstantiations',
+        async (item: VerilogNode) => {
+            const design = currentDesign;
+            if (!design) {
+                vscode.window.showInformationMessage('Verilog design is not indexed yet.');
+                return;
+            }
+            const moduleName = item?.moduleName;
+            if (!moduleName) {
+                vscode.window.showInformationMessage('No module associated with this item.');
+                return;
+            }
+
+            const instantiations = findInstantiations(design, moduleName);
+            if (instantiations.length === 0) {
+                vscode.window.showInformationMessage(`Module "${moduleName}" is not instantiated in the design.`);
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(
+                instantiations.map(({ parent, instance }) => ({
+                    label: `${parent.name}.${instance.instanceName}${instance.arrayRange ?? ''}`,
+                    description: vscode.workspace.asRelativePath(instance.location.uri),
+                    location: instance.moduleNameLocation,
+                })),
+                {
+                    title: `Instantiations of "${moduleName}"`,
+                    placeHolder: 'Select an instance to jump to its instantiation',
+                },
+            );
+            if (!selected) {
+                return;
+            }
+
+            const loc = selected.location;
+            const doc = await vscode.workspace.openTextDocument(loc.uri);
+            const editor = await vscode.window.showTextDocument(doc);
+            editor.selection = new vscode.Selection(loc.range.start, loc.range.start);
+            editor.revealRange(loc.range, vscode.TextEditorRevealType.InCenter);
+        },
+    );
+
+    context.subscriptions.push(showInstantiationsCmd);
+
     const revealInHierarchyCmd = vscode.commands.registerCommand(
         'vetree-verilog.revealInHierarchy',
         async (item: VerilogNode) => {
@@ -1528,6 +3394,161 @@ export function activate(context: vscode.ExtensionContext) {
     );
     context.subscriptions.push(setTopModuleCmd);
 
+    const chooseModuleDefinitionCmd = vscode.commands.registerCommand(
+        'vetree-verilog.chooseModuleDefinition',
+        async (item?: VerilogNode | HierarchyNode | string) => {
+            const design = currentDesign;
+            if (!design) {
+                vscode.window.showInformationMessage('Verilog design is not indexed yet.');
+                return;
+            }
+
+            let moduleName = typeof item === 'string' ? item : item?.moduleName;
+            if (!moduleName) {
+                const duplicates = Array.from(design.modulesByName.entries())
+                    .filter(([, mods]) => mods.filter(m => m.kind !== 'class').length > 1)
+                    .map(([name]) => name)
+                    .sort();
+                if (duplicates.length === 0) {
+                    vscode.window.showInformationMessage('No module has more than one definition.');
+                    return;
+                }
+                moduleName = await vscode.window.showQuickPick(duplicates, {
+                    title: 'Choose a definition for module',
+                });
+                if (!moduleName) {
+                    return;
+                }
+            }
+
+            const definitions = (design.modulesByName.get(moduleName) ?? []).filter(m => m.kind !== 'class');
+            if (definitions.length < 2) {
+                vscode.window.showInformationMessage(`Module "${moduleName}" has a single definition.`);
+                return;
+            }
+
+            const preferred = readPreferredDefinitions();
+            const current = preferred.get(moduleName);
+            const pick = await vscode.window.showQuickPick(
+                [
+                    ...definitions.map(m => {
+                        const path = definitionPath(m.uri);
+                        return {
+                            label: path,
+                            description: path === current ? 'chosen' : '',
+                            path: path as string | undefined,
+                        };
+                    }),
+                    {
+                        label: 'Use all definitions',
+                        description: 'follow vetree-verilog.hierarchyResolve',
+                        path: undefined,
+                    },
+                ],
+                { title: `Definition of "${moduleName}" to use` },
+            );
+            if (!pick) {
+                return;
+            }
+
+            if (pick.path) {
+                preferred.set(moduleName, pick.path);
+            } else {
+                preferred.delete(moduleName);
+            }
+            const config = vscode.workspace.getConfiguration('vetree-verilog');
+            await config.update(
+                'preferredDefinitions',
+                Object.fromEntries(preferred),
+                vscode.ConfigurationTarget.Workspace,
+            );
+        },
+    );
+    context.subscriptions.push(chooseModuleDefinitionCmd);
+
+    // A new choice of definitions re-resolves only the affected module names.
+    const preferredDefinitionsListener = vscode.workspace.onDidChangeConfiguration(event => {
+        const design = currentDesign;
+        if (!design || !event.affectsConfiguration('vetree-verilog.preferredDefinitions')) {
+            return;
+        }
+        const changedNames = setPreferredDefinitions(design, readPreferredDefinitions());
+        if (changedNames.size === 0) {
+            return;
+        }
+        publishDiagnostics(design);
+        if (indexState && !indexState.skipHierarchyBuild) {
+            hierarchyProvider.refreshModules(design, changedNames);
+        }
+    });
+    context.subscriptions.push(preferredDefinitionsListener);
+
+    // Module for an instantiation template: the tree item, the module name under the
+    // cursor (which the snippet then replaces), or a pick from the index.
+    const resolveTemplateModule = async (
+        item?: VerilogNode | HierarchyNode,
+    ): Promise<{ module: ParsedModule; replaceRange?: vscode.Range } | undefined> => {
+        const design = currentDesign;
+        if (!design) {
+            vscode.window.showInformationMessage('Verilog design is not indexed yet.');
+            return undefined;
+        }
+        const instantiable = (name: string) =>
+            resolvedDefinitions(design, name).filter(m => m.kind === 'module' || m.kind === 'interface');
+
+        if (item) {
+            const module = item.moduleName ? instantiable(item.moduleName)[0] : undefined;
+            if (!module) {
+                vscode.window.showInformationMessage('No module associated with this item.');
+            }
+            return module ? { module } : undefined;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const wordRange = editor?.document.getWordRangeAtPosition(editor.selection.active, /[a-zA-Z_]\w*/);
+        const underCursor = editor && wordRange ? instantiable(editor.document.getText(wordRange))[0] : undefined;
+        if (underCursor) {
+            return { module: underCursor, replaceRange: wordRange };
+        }
+
+        const names = Array.from(design.modulesByName.keys()).filter(name => instantiable(name).length > 0).sort();
+        const picked = await vscode.window.showQuickPick(names, { title: 'Module to instantiate' });
+        return picked ? { module: instantiable(picked)[0] } : undefined;
+    };
+
+    const copyInstantiationCmd = vscode.commands.registerCommand(
+        'vetree-verilog.copyInstantiation',
+        async (item?: VerilogNode | HierarchyNode) => {
+            const target = await resolveTemplateModule(item);
+            if (!target) {
+                return;
+            }
+            await vscode.env.clipboard.writeText(buildInstantiation(target.module, false));
+            vscode.window.showInformationMessage(`Instantiation of "${target.module.name}" copied to the clipboard.`);
+        },
+    );
+    context.subscriptions.push(copyInstantiationCmd);
+
+    const insertInstantiationCmd = vscode.commands.registerCommand(
+        'vetree-verilog.insertInstantiation',
+        async (item?: VerilogNode | HierarchyNode) => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showInformationMessage('Open a Verilog file to insert the instantiation into.');
+                return;
+            }
+            const target = await resolveTemplateModule(item);
+            if (!target) {
+                return;
+            }
+            await editor.insertSnippet(
+                new vscode.SnippetString(buildInstantiation(target.module, true)),
+                target.replaceRange ?? editor.selection,
+            );
+        },
+    );
+    context.subscriptions.push(insertInstantiationCmd);
+
     const clearTopModuleCmd = vscode.commands.registerCommand(
         'vetree-verilog.clearTopModule',
         async () => {
@@ -1822,11 +3843,35 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(goToDefinitionCmd);
 
+    const openInterfaceDefinitionCmd = vscode.commands.registerCommand(
+        'vetree-verilog.openInterfaceDefinition',
+        async (item: VerilogNode) => {
+            const interfaceName = item?.port?.interfaceName;
+            if (!interfaceName) {
+                vscode.window.showInformationMessage('No interface associated with this item.');
+                return;
+            }
+            const iface = currentDesign?.modulesByName.get(interfaceName)?.find(m => m.kind === 'interface');
+            if (!iface) {
+                vscode.window.showInformationMessage(`Interface "${interfaceName}" not found in index.`);
+                return;
+            }
+            const modport = iface.modports.find(mp => mp.name === item.port?.modportName);
+            const loc = modport?.location ?? new vscode.Location(iface.uri, iface.definitionRange);
+            const doc = await vscode.workspace.openTextDocument(loc.uri);
+            const editor = await vscode.window.showTextDocument(doc);
+            editor.selection = new vscode.Selection(loc.range.start, loc.range.start);
+            editor.revealRange(loc.range, vscode.TextEditorRevealType.InCenter);
+        },
+    );
+
+    context.subscriptions.push(openInterfaceDefinitionCmd);
+
     // Auto refresh on .v/.sv changes
     const watcher = vscode.workspace.createFileSystemWatcher('**/*.{v,sv}');
-    watcher.onDidCreate(() => scheduleFullRefresh());
-    watcher.onDidChange(() => scheduleFullRefresh());
-    watcher.onDidDelete(() => scheduleFullRefresh());
+    watcher.onDidCreate(uri => scheduleFileRefresh(uri));
+    watcher.onDidChange(uri => scheduleFileRefresh(uri));
+    watcher.onDidDelete(uri => scheduleFileRefresh(uri, true));
     context.subscriptions.push(watcher);
 
     // DefinitionProvider for Verilog files
@@ -1838,6 +3883,55 @@ export function activate(context: vscode.ExtensionContext) {
     const defReg = vscode.languages.registerDefinitionProvider(selector, defProvider);
     context.subscriptions.push(defReg);
 
+    // ReferenceProvider for "Find All References" on module names
+    const referenceReg = vscode.languages.registerReferenceProvider(
+        selector,
+        new VerilogReferenceProvider(() => currentDesign),
+    );
+    context.subscriptions.push(referenceReg);
+
+    // HoverProvider for module and instance cards
+    const hoverReg = vscode.languages.registerHoverProvider(
+        selector,
+        new VerilogHoverProvider(() => currentDesign),
+    );
+    context.subscriptions.push(hoverReg);
+
+    // CallHierarchyProvider for incoming/outgoing instantiations
+    const callHierarchyReg = vscode.languages.registerCallHierarchyProvider(
+        selector,
+        new VerilogCallHierarchyProvider(() => currentDesign),
+    );
+    context.subscriptions.push(callHierarchyReg);
+
+    // RenameProvider for module and port names
+    const renameReg = vscode.languages.registerRenameProvider(
+        selector,
+        new VerilogRenameProvider(() => currentDesign),
+    );
+    context.subscriptions.push(renameReg);
+
+    // Quick fixes for diagnostics
+    const codeActionReg = vscode.languages.registerCodeActionsProvider(
+        selector,
+        new VerilogCodeActionProvider(),
+        { providedCodeActionKinds: VerilogCodeActionProvider.providedCodeActionKinds },
+    );
+    context.subscriptions.push(codeActionReg);
+
+    // DocumentSymbolProvider for the Outline view and breadcrumbs
+    const symbolReg = vscode.languages.registerDocumentSymbolProvider(
+        selector,
+        new VerilogDocumentSymbolProvider(() => currentDesign),
+    );
+    context.subscriptions.push(symbolReg);
+
+    // WorkspaceSymbolProvider for "Go to Symbol in Workspace"
+    const workspaceSymbolReg = vscode.languages.registerWorkspaceSymbolProvider(
+        new VerilogWorkspaceSymbolProvider(() => currentDesign),
+    );
+    context.subscriptions.push(workspaceSymbolReg);
+
     // Initial pass
     scheduleFullRefresh();
 }
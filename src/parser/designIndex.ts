@@ -0,0 +1,202 @@
+// src/parser/designIndex.ts
+import * as vscode from 'vscode';
+import { ParsedDesign, ParsedModule, PortBinding, PortDirection, PreprocessorProblem } from './types';
+
+export function buildDesignIndex(
+    modules: ParsedModule[],
+    problemsByFile = new Map<string, PreprocessorProblem[]>(),
+): ParsedDesign {
+    const design: ParsedDesign = {
+        modules: [],
+        modulesByName: new Map<string, ParsedModule[]>(),
+        modulesByFile: new Map<string, ParsedModule[]>(),
+        preferredDefinitions: new Map<string, string>(),
+        problemsByFile,
+    };
+    for (const m of modules) {
+        addModule(design, m);
+    }
+    resolvePortKinds(design, design.modules);
+    resolveInstanceBindings(design, design.modules);
+    return design;
+}
+
+// Replace all modules of a file with a freshly parsed set (empty list = file removed).
+// Returns the names of modules that were removed or added, i.e. everything whose
+// definition or instance list may have changed.
+export function replaceFileModules(
+    design: ParsedDesign,
+    uri: vscode.Uri,
+    modules: ParsedModule[],
+    problems: PreprocessorProblem[] = [],
+): Set<string> {
+    const key = uri.toString();
+    const changedNames = new Set<string>();
+    if (problems.length > 0) {
+        design.problemsByFile.set(key, problems);
+    } else {
+        design.problemsByFile.delete(key);
+    }
+    const oldModules = design.modulesByFile.get(key) ?? [];
+
+    if (oldModules.length > 0) {
+        const oldSet = new Set(oldModules);
+        design.modules = design.modules.filter(m => !oldSet.has(m));
+        for (const m of oldModules) {
+            changedNames.add(m.name);
+            const byName = design.modulesByName.get(m.name);
+            if (!byName) {
+                continue;
+            }
+            const rest = byName.filter(x => x !== m);
+            if (rest.length > 0) {
+                design.modulesByName.set(m.name, rest);
+            } else {
+                design.modulesByName.delete(m.name);
+            }
+        }
+        design.modulesByFile.delete(key);
+    }
+
+    for (const m of modules) {
+        changedNames.add(m.name);
+        addModule(design, m);
+    }
+
+    // Units with a port typed by a changed name may gain or lose interface ports.
+    const reclassified = design.modules.filter(m =>
+        modules.includes(m) || m.ports.some(p => p.interfaceCandidate && changedNames.has(p.typeText ?? '')));
+    resolvePortKinds(design, reclassified);
+    for (const m of reclassified) {
+        changedNames.add(m.name);
+    }
+    resolveInstanceBindings(
+        design,
+        design.modules.filter(m =>
+            modules.includes(m) || m.instances.some(inst => changedNames.has(inst.moduleName)),
+        ),
+    );
+
+    return changedNames;
+}
+
+// "axi_if bus" and "pkt_t data" look the same in a port list: the port is an interface
+// port only if its type names an indexed interface.
+function resolvePortKinds(design: ParsedDesign, modules: ParsedModule[]): void {
+    for (const m of modules) {
+        let previousDirection: PortDirection = 'unknown';
+        for (const p of m.ports) {
+            if (p.interfaceCandidate && p.typeText) {
+                const isInterface = (design.modulesByName.get(p.typeText) ?? []).some(d => d.kind === 'interface');
+                p.direction = isInterface ? 'interface' : previousDirection;
+                p.interfaceName = isInterface ? p.typeText : undefined;
+            }
+            if (p.direction !== 'interface') {
+                previousDirection = p.direction;
+            }
+        }
+    }
+}
+
+// Positional port connections take their names from the target module's port order
+// and .* expands to the target's remaining ports; both need the target in the index.
+function resolveInstanceBindings(design: ParsedDesign, modules: ParsedModule[]): void {
+    for (const m of modules) {
+        for (const inst of m.instances) {
+            const target = design.modulesByName.get(inst.moduleName)?.[0];
+            for (const binding of inst.bindings) {
+                if (binding.position !== undefined) {
+                    binding.portName = target?.ports[binding.position]?.name ?? '';
+                }
+            }
+
+            if (!inst.wildcardLocation) {
+                continue;
+            }
+            const explicit = inst.bindings.filter(b => b.implicit !== 'wildcard');
+            const bound = new Set(explicit.map(b => b.portName));
+            const wildcardLocation = inst.wildcardLocation;
+            const expanded: PortBinding[] = (target?.ports ?? [])
+                .filter(p => !bound.has(p.name))
+                .map(p => ({
+                    portName: p.name,
+                    expr: p.name,
+                    location: wildcardLocation,
+                    implicit: 'wildcard',
+                }));
+            inst.bindings = [...explicit, ...expanded];
+        }
+    }
+}
+
+// Apply a new set of chosen definitions. The chosen definition is kept first in
+// modulesByName, so everything that picks the first definition uses it.
+// Returns the names whose resolution changed.
+export function setPreferredDefinitions(design: ParsedDesign, preferred: Map<string, string>): Set<string> {
+    const changedNames = new Set<string>();
+    for (const name of new Set([...design.preferredDefinitions.keys(), ...preferred.keys()])) {
+        if (design.preferredDefinitions.get(name) !== preferred.get(name)) {
+            changedNames.add(name);
+        }
+    }
+    design.preferredDefinitions = preferred;
+    for (const name of changedNames) {
+        const byName = design.modulesByName.get(name);
+        if (byName) {
+            design.modulesByName.set(name, [
+                ...byName.filter(m => isPreferred(design, m)),
+                ...byName.filter(m => !isPreferred(design, m)),
+            ]);
+        }
+    }
+    if (changedNames.size > 0) {
+        resolveInstanceBindings(
+            design,
+            design.modules.filter(m => m.instances.some(inst => changedNames.has(inst.moduleName))),
+        );
+    }
+    return changedNames;
+}
+
+// The definitions a name resolves to: the chosen one if set and present, otherwise all.
+export function resolvedDefinitions(design: ParsedDesign, name: string): ParsedModule[] {
+    const definitions = design.modulesByName.get(name) ?? [];
+    const chosen = definitions.find(m => isPreferred(design, m));
+    return chosen ? [chosen] : definitions;
+}
+
+// How a definition's file is named in preferredDefinitions: relative to its workspace
+// folder, prefixed with the folder name in a multi-root workspace.
+export function definitionPath(uri: vscode.Uri): string {
+    return vscode.workspace.asRelativePath(uri, true);
+}
+
+function isPreferred(design: ParsedDesign, m: ParsedModule): boolean {
+    const path = design.preferredDefinitions.get(m.name);
+    return path !== undefined && definitionPath(m.uri) === path;
+}
+
+function addModule(design: ParsedDesign, m: ParsedModule): void {
+    design.modules.push(m);
+
+    // by name
+    let arrByName = design.modulesByName.get(m.name);
+    if (!arrByName) {
+        arrByName = [];
+        design.modulesByName.set(m.name, arrByName);
+    }
+    if (isPreferred(design, m)) {
+        arrByName.unshift(m);
+    } else {
+        arrByName.push(m);
+    }
+
+    // by file
+    const key = m.uri.toString();
+    let arrByFile = design.modulesByFile.get(key);
+    if (!arrByFile) {
+        arrByFile = [];
+        design.modulesByFile.set(key, arrByFile);
+    }
+    arrByFile.push(m);
+}
@@ -0,0 +1,225 @@
+// src/parser/parseCache.ts
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { DefineTable, ParsedFile } from './types';
+import { decodeValue, encodeValue } from './serialize';
+
+// Bump when the shape of ParsedModule or the parser output changes.
+const CACHE_VERSION = 21;
+const CACHE_FILE = 'parse-cache.json';
+
+interface CacheEntry {
+    contextKey: string;
+    mtime: number;
+    size: number;
+    hash: string;
+    includes: IncludeEntry[];
+    file: unknown;
+}
+
+// An include of the cached file: a resolved one with the state of the included file,
+// or an unresolved one that must still fail to resolve.
+interface IncludeEntry {
+    path: string;
+    from: string;
+    uri?: string;
+    mtime?: number;
+    size?: number;
+    hash?: string;
+}
+
+export type IncludeResolver = (includePath: string, from: vscode.Uri) => Promise<vscode.Uri | null>;
+
+interface CacheFile {
+    version: number;
+    entries: Record<string, CacheEntry>;
+}
+
+export class ParseCache {
+    private entries = new Map<string, CacheEntry>();
+    private dirty = false;
+    private hits = 0;
+    private misses = 0;
+
+    private constructor(private readonly storageUri: vscode.Uri | undefined) {}
+
+    static async load(storageUri: vscode.Uri | undefined): Promise<ParseCache> {
+        const cache = new ParseCache(storageUri);
+        if (!storageUri) {
+            return cache;
+        }
+        try {
+            const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(storageUri, CACHE_FILE));
+            const data = JSON.parse(Buffer.from(bytes).toString('utf8')) as CacheFile;
+            if (data.version === CACHE_VERSION && data.entries) {
+                cache.entries = new Map(Object.entries(data.entries));
+            }
+        } catch {
+            // No cache yet or unreadable: start empty.
+        }
+        return cache;
+    }
+
+    static contentHash(bytes: Uint8Array): string {
+        return crypto.createHash('sha1').update(bytes).digest('hex');
+    }
+
+    static contextKey(defines: DefineTable, enablePreprocess: boolean, includeDirs: vscode.Uri[]): string {
+        return JSON.stringify([
+            enablePreprocess,
+            Array.from(defines.values())
+                .map(d => [d.name, d.params ?? null, d.body])
+                .sort((a, b) => String(a[0]).localeCompare(String(b[0]))),
+            includeDirs.map(d => d.toString()),
+        ]);
+    }
+
+    // Fast path: same mtime and size means the file was not touched.
+    async getByStat(
+        uri: vscode.Uri,
+        contextKey: string,
+        stat: vscode.FileStat,
+        resolveInclude: IncludeResolver,
+    ): Promise<ParsedFile | undefined> {
+        const entry = this.entries.get(uri.toString());
+        if (entry && entry.contextKey === contextKey && entry.mtime === stat.mtime && entry.size === stat.size) {
+            return await this.includesUnchanged(entry, resolveInclude) ? this.hit(entry) : undefined;
+        }
+        return undefined;
+    }
+
+    // Slow path: the file was touched, but its content may be unchanged.
+    async getByHash(
+        uri: vscode.Uri,
+        contextKey: string,
+        stat: vscode.FileStat,
+        hash: string,
+        resolveInclude: IncludeResolver,
+    ): Promise<ParsedFile | undefined> {
+        const entry = this.entries.get(uri.toString());
+        if (entry && entry.contextKey === contextKey && entry.hash === hash &&
+            await this.includesUnchanged(entry, resolveInclude)) {
+            entry.mtime = stat.mtime;
+            entry.size = stat.size;
+            this.dirty = true;
+            return this.hit(entry);
+        }
+        this.misses++;
+        return undefined;
+    }
+
+    async set(
+        uri: vscode.Uri,
+        contextKey: string,
+        stat: vscode.FileStat,
+        hash: string,
+        file: ParsedFile,
+    ): Promise<void> {
+        const includes: IncludeEntry[] = [];
+        for (const inc of file.includes) {
+            const entry: IncludeEntry = { path: inc.path, from: inc.from.toString() };
+            if (inc.uri) {
+                try {
+                    const includeStat = await vscode.workspace.fs.stat(inc.uri);
+                    entry.uri = inc.uri.toString();
+                    entry.mtime = includeStat.mtime;
+                    entry.size = includeStat.size;
+                    entry.hash = ParseCache.contentHash(await vscode.workspace.fs.readFile(inc.uri));
+                } catch {
+                    return; // the include vanished while parsing: do not cache
+                }
+            }
+            includes.push(entry);
+        }
+        this.entries.set(uri.toString(), {
+            contextKey,
+            mtime: stat.mtime,
+            size: stat.size,
+            hash,
+            includes,
+            file: encodeValue(file),
+        });
+        this.dirty = true;
+    }
+
+    // Drop entries for files that are no longer part of the design.
+    retain(files: vscode.Uri[]): void {
+        const keep = new Set(files.map(f => f.toString()));
+        for (const key of Array.from(this.entries.keys())) {
+            if (!keep.has(key)) {
+                this.entries.delete(key);
+                this.dirty = true;
+            }
+        }
+    }
+
+    takeStats(): { hits: number; misses: number } {
+        const stats = { hits: this.hits, misses: this.misses };
+        this.hits = 0;
+        this.misses = 0;
+        return stats;
+    }
+
+    async save(): Promise<void> {
+        if (!this.storageUri || !this.dirty) {
+            return;
+        }
+        const data: CacheFile = {
+            version: CACHE_VERSION,
+            entries: Object.fromEntries(this.entries),
+        };
+        await vscode.workspace.fs.createDirectory(this.storageUri);
+        await vscode.workspace.fs.writeFile(
+            vscode.Uri.joinPath(this.storageUri, CACHE_FILE),
+            Buffer.from(JSON.stringify(data), 'utf8'),
+        );
+        this.dirty = false;
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+        this.dirty = false;
+        if (!this.storageUri) {
+            return;
+        }
+        try {
+            await vscode.workspace.fs.delete(vscode.Uri.joinPath(this.storageUri, CACHE_FILE));
+        } catch {
+            // Nothing to delete.
+        }
+    }
+
+    // Included text is part of the parse: every include must still have the same content,
+    // and every include that failed to resolve must still fail.
+    private async includesUnchanged(entry: CacheEntry, resolveInclude: IncludeResolver): Promise<boolean> {
+        for (const inc of entry.includes) {
+            if (!inc.uri) {
+                if (await resolveInclude(inc.path, vscode.Uri.parse(inc.from))) {
+                    return false;
+                }
+                continue;
+            }
+            const includeUri = vscode.Uri.parse(inc.uri);
+            try {
+                const stat = await vscode.workspace.fs.stat(includeUri);
+                if (stat.mtime === inc.mtime && stat.size === inc.size) {
+                    continue;
+                }
+                if (ParseCache.contentHash(await vscode.workspace.fs.readFile(includeUri)) !== inc.hash) {
+                    return false;
+                }
+                inc.mtime = stat.mtime;
+                inc.size = stat.size;
+                this.dirty = true;
+            } catch {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private hit(entry: CacheEntry): ParsedFile {
+        this.hits++;
+        return decodeValue(entry.file) as ParsedFile;
+    }
+}
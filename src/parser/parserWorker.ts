@@ -0,0 +1,70 @@
+// src/parser/parserWorker.ts
+// Entry point of a parser worker thread. 'vscode' is not available here, so the
+// host below produces the serialized values described in serialize.ts.
+import { parentPort } from 'worker_threads';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type * as vscode from 'vscode';
+import { parseModulesAndInstancesInFile, setParserHost } from './tsRegexParser';
+import type { ParserJob, ParserJobResult } from './workerPool';
+
+type WireUri = { $uri: string; fsPath: string };
+type WirePosition = { $pos: [number, number] };
+type WireRange = { $range: [number, number, number, number] };
+
+const toUri = (fsPath: string): vscode.Uri =>
+    ({ $uri: pathToFileURL(fsPath).toString(), fsPath } as WireUri) as unknown as vscode.Uri;
+
+setParserHost({
+    position(line, character) {
+        return ({ $pos: [line, character] } as WirePosition) as unknown as vscode.Position;
+    },
+    range(start, end) {
+        const s = (start as unknown as WirePosition).$pos;
+        const e = (end as unknown as WirePosition).$pos;
+        return ({ $range: [s[0], s[1], e[0], e[1]] } as WireRange) as unknown as vscode.Range;
+    },
+    location(uri, rangeOrPosition) {
+        const wire = rangeOrPosition as unknown as WirePosition | WireRange;
+        const range = '$pos' in wire ? [...wire.$pos, ...wire.$pos] : wire.$range;
+        return { $loc: [(uri as unknown as WireUri).$uri, ...range] } as unknown as vscode.Location;
+    },
+    async resolveInclude(includePath, fileUri, includeDirs) {
+        if (path.isAbsolute(includePath)) {
+            return toUri(includePath);
+        }
+        const candidates = [path.dirname(fileUri.fsPath), ...includeDirs.map(d => d.fsPath)];
+        for (const base of candidates) {
+            const candidate = path.join(base, includePath);
+            try {
+                await fs.promises.stat(candidate);
+                return toUri(candidate);
+            } catch {
+                continue;
+            }
+        }
+        return null;
+    },
+    async readText(uri) {
+        return fs.promises.readFile(uri.fsPath, 'utf8');
+    },
+});
+
+parentPort?.on('message', async (job: ParserJob) => {
+    let result: ParserJobResult;
+    try {
+        const uri = { $uri: job.uri, fsPath: job.fsPath } as unknown as vscode.Uri;
+        const file = await parseModulesAndInstancesInFile(
+            job.text,
+            uri,
+            new Map(job.defines.map(def => [def.name, def])),
+            job.enablePreprocess,
+            job.includeDirs.map(toUri),
+        );
+        result = { id: job.id, file };
+    } catch (err) {
+        result = { id: job.id, error: err instanceof Error ? err.message : String(err) };
+    }
+    parentPort?.postMessage(result);
+});
@@ -0,0 +1,73 @@
+// src/parser/serialize.ts
+// Plain-JSON form of parser output, shared by the parse cache and parser workers.
+// Tagged objects stand in for vscode values:
+//   { $loc: [uri, startLine, startChar, endLine, endChar] }
+//   { $range: [startLine, startChar, endLine, endChar] }
+//   { $pos: [line, character] }
+//   { $uri: string, fsPath?: string }
+import * as vscode from 'vscode';
+
+export function encodeValue(value: unknown): unknown {
+    if (value instanceof vscode.Location) {
+        return { $loc: [value.uri.toString(), ...encodeRange(value.range)] };
+    }
+    if (value instanceof vscode.Range) {
+        return { $range: encodeRange(value) };
+    }
+    if (value instanceof vscode.Position) {
+        return { $pos: [value.line, value.character] };
+    }
+    if (value instanceof vscode.Uri) {
+        return { $uri: value.toString(), fsPath: value.fsPath };
+    }
+    if (Array.isArray(value)) {
+        return value.map(v => encodeValue(v));
+    }
+    if (value && typeof value === 'object') {
+        const out: Record<string, unknown> = {};
+        for (const [key, v] of Object.entries(value)) {
+            if (v !== undefined) {
+                out[key] = encodeValue(v);
+            }
+        }
+        return out;
+    }
+    return value;
+}
+
+export function decodeValue(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(v => decodeValue(v));
+    }
+    if (!value || typeof value !== 'object') {
+        return value;
+    }
+    const obj = value as Record<string, unknown>;
+    if (Array.isArray(obj.$loc)) {
+        const [uri, ...range] = obj.$loc as [string, number, number, number, number];
+        return new vscode.Location(vscode.Uri.parse(uri), decodeRange(range));
+    }
+    if (Array.isArray(obj.$range)) {
+        return decodeRange(obj.$range as number[]);
+    }
+    if (Array.isArray(obj.$pos)) {
+        const [line, character] = obj.$pos as [number, number];
+        return new vscode.Position(line, character);
+    }
+    if (typeof obj.$uri === 'string') {
+        return vscode.Uri.parse(obj.$uri);
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(obj)) {
+        out[key] = decodeValue(v);
+    }
+    return out;
+}
+
+function encodeRange(range: vscode.Range): number[] {
+    return [range.start.line, range.start.character, range.end.line, range.end.character];
+}
+
+function decodeRange(values: number[]): vscode.Range {
+    return new vscode.Range(values[0], values[1], values[2], values[3]);
+}
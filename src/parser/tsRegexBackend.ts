@@ -1,362 +1,157 @@
 // src/parser/tsRegexBackend.ts
 import * as vscode from 'vscode';
+import * as os from 'os';
 import * as path from 'path';
 import {
-    InstanceRef,
+    DefineTable,
     ParsedDesign,
-    ParsedModule,
+    ParsedFile,
     VerilogParserBackend,
-    PortInfo,
-    PortBinding,
+    ParseOptions,
 } from './types';
+import { buildDesignIndex } from './designIndex';
+import { ParseCache } from './parseCache';
+import { decodeValue } from './serialize';
+import { parseModulesAndInstancesInFile, setParserHost } from './tsRegexParser';
+import { ParserWorkerPool } from './workerPool';
+
+setParserHost({
+    position: (line, character) => new vscode.Position(line, character),
+    range: (start, end) => new vscode.Range(start, end),
+    location: (uri, rangeOrPosition) => new vscode.Location(uri, rangeOrPosition),
+    resolveInclude: resolveIncludePath,
+    async readText(uri) {
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        return Buffer.from(bytes).toString('utf8');
+    },
+});
+
+export class TsRegexParserBackend implements VerilogParserBackend, vscode.Disposable {
+    private pool: ParserWorkerPool | null = null;
+
+    // 0 picks a count from the number of CPUs; 1 parses on the extension host thread.
+    configureWorkers(requested: number): void {
+        const count = requested > 0
+            ? Math.floor(requested)
+            : Math.min(Math.max(os.cpus().length - 1, 1), 8);
+        if (count === (this.pool?.size ?? 1)) {
+            return;
+        }
+        this.pool?.dispose();
+        this.pool = count > 1
+            ? new ParserWorkerPool(count, path.join(__dirname, 'parserWorker.js'))
+            : null;
+    }
+
+    dispose(): void {
+        this.pool?.dispose();
+        this.pool = null;
+    }
 
-export class TsRegexParserBackend implements VerilogParserBackend {
     async parseFiles(
         files: vscode.Uri[],
-        defines?: Set<string>,
-        options?: {
-            enablePreprocess?: boolean;
-            logDebug?: (message: string) => void;
-            includeDirs?: vscode.Uri[];
-        },
+        defines?: DefineTable,
+        options?: ParseOptions,
     ): Promise<ParsedDesign> {
-        const modules: ParsedModule[] = [];
-        const activeDefines = defines ?? new Set<string>();
-        const enablePreprocess = options?.enablePreprocess ?? true;
-        const logDebug = options?.logDebug;
-        const includeDirs = options?.includeDirs ?? [];
-
-        for (const uri of files) {
-            try {
-                const start = Date.now();
-                const bytes = await vscode.workspace.fs.readFile(uri);
-                const text = Buffer.from(bytes).toString('utf8');
-                const fileDefines = new Set(activeDefines);
-                const modsInFile = await parseModulesAndInstancesInFile(
-                    text,
-                    uri,
-                    fileDefines,
-                    enablePreprocess,
-                    includeDirs,
-                );
-                if (logDebug) {
-                    const rel = vscode.workspace.asRelativePath(uri, false);
-                    logDebug(
-                        `Parsed ${rel}: modules=${modsInFile.length}, time=${Date.now() - start}ms`,
-                    );
+        // Keep results in file order so the design does not depend on timing.
+        const results: ParsedFile[] = new Array(files.length);
+        const concurrency = this.pool ? this.pool.size * 2 : 1;
+        let next = 0;
+
+        const runNext = async () => {
+            while (next < files.length) {
+                const index = next++;
+                const uri = files[index];
+                try {
+                    results[index] = await this.parseFile(uri, defines, options);
+                } catch (err) {
+                    console.error(`Failed to read ${uri.fsPath}:`, err);
+                    results[index] = { modules: [], problems: [], includes: [] };
                 }
-                modules.push(...modsInFile);
-            } catch (err) {
-                console.error(`Failed to read ${uri.fsPath}:`, err);
             }
-        }
-
-        const modulesByName = new Map<string, ParsedModule[]>();
-        const modulesByFile = new Map<string, ParsedModule[]>();
+        };
+        await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, runNext));
 
-        for (const m of modules) {
-            // by name
-            let arrByName = modulesByName.get(m.name);
-            if (!arrByName) {
-                arrByName = [];
-                modulesByName.set(m.name, arrByName);
-            }
-            arrByName.push(m);
-
-            // by file
-            const key = m.uri.toString();
-            let arrByFile = modulesByFile.get(key);
-            if (!arrByFile) {
-                arrByFile = [];
-                modulesByFile.set(key, arrByFile);
-            }
-            arrByFile.push(m);
-        }
-
-        return { modules, modulesByName, modulesByFile };
+        const problemsByFile = new Map(
+            files
+                .map((uri, i) => [uri.toString(), results[i].problems] as const)
+                .filter(([, problems]) => problems.length > 0),
+        );
+        return buildDesignIndex(results.flatMap(r => r.modules), problemsByFile);
     }
-}
 
-// --------- helpers: regex parser ---------
-
-function stripVerilogComments(source: string): string {
-    // Preserve length and line positions by replacing comment/attribute chars with spaces.
-    const out = source.split('');
-    let inLineComment = false;
-    let inBlockComment = false;
-    let inAttribute = false;
-    let inString = false;
-
-    for (let i = 0; i < out.length; i++) {
-        const ch = out[i];
-        const next = i + 1 < out.length ? out[i + 1] : '';
-
-        if (inLineComment) {
-            if (ch === '\n') {
-                inLineComment = false;
-            } else {
-                out[i] = ' ';
-            }
-            continue;
-        }
-
-        if (inBlockComment) {
-            if (ch === '*' && next === '/') {
-                out[i] = ' ';
-                out[i + 1] = ' ';
-                i++;
-                inBlockComment = false;
-            } else if (ch !== '\n') {
-                out[i] = ' ';
+    async parseFile(
+        uri: vscode.Uri,
+        defines?: DefineTable,
+        options?: ParseOptions,
+    ): Promise<ParsedFile> {
+        const enablePreprocess = options?.enablePreprocess ?? true;
+        const logDebug = options?.logDebug;
+        const includeDirs = options?.includeDirs ?? [];
+        const cache = options?.cache;
+
+        const start = Date.now();
+        const contextKey = cache
+            ? ParseCache.contextKey(defines ?? new Map(), enablePreprocess, includeDirs)
+            : '';
+        const stat = cache ? await vscode.workspace.fs.stat(uri) : undefined;
+        const resolveInclude = (includePath: string, from: vscode.Uri) =>
+            resolveIncludePath(includePath, from, includeDirs);
+        if (cache && stat) {
+            const cached = await cache.getByStat(uri, contextKey, stat, resolveInclude);
+            if (cached) {
+                return cached;
             }
-            continue;
         }
 
-        if (inAttribute) {
-            if (ch === '*' && next === ')') {
-                out[i] = ' ';
-                out[i + 1] = ' ';
-                i++;
-                inAttribute = false;
-            } else if (ch !== '\n') {
-                out[i] = ' ';
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        const hash = cache ? ParseCache.contentHash(bytes) : '';
+        if (cache && stat) {
+            const cached = await cache.getByHash(uri, contextKey, stat, hash, resolveInclude);
+            if (cached) {
+                return cached;
             }
-            continue;
         }
 
-        if (inString) {
-            if (ch === '\\\\' && next !== '') {
-                i++;
-                continue;
-            }
-            if (ch === '\"') {
-                inString = false;
+        const text = Buffer.from(bytes).toString('utf8');
+        const fileDefines: DefineTable = new Map(defines ?? []);
+        let parsed: ParsedFile | undefined;
+        const canUseWorker = uri.scheme === 'file' && includeDirs.every(d => d.scheme === 'file');
+        if (this.pool && canUseWorker) {
+            try {
+                const encoded = await this.pool.run({
+                    text,
+                    uri: uri.toString(),
+                    fsPath: uri.fsPath,
+                    defines: Array.from(fileDefines.values()),
+                    enablePreprocess,
+                    includeDirs: includeDirs.map(d => d.fsPath),
+                });
+                parsed = decodeValue(encoded) as ParsedFile;
+            } catch (err) {
+                console.warn(`Parser worker failed on ${uri.fsPath}, parsing in-process:`, err);
             }
-            continue;
-        }
-
-        if (ch === '\"') {
-            inString = true;
-            continue;
-        }
-
-        if (ch === '/' && next === '/') {
-            out[i] = ' ';
-            out[i + 1] = ' ';
-            i++;
-            inLineComment = true;
-            continue;
-        }
-
-        if (ch === '/' && next === '*') {
-            out[i] = ' ';
-            out[i + 1] = ' ';
-            i++;
-            inBlockComment = true;
-            continue;
         }
-
-        if (ch === '(' && next === '*') {
-            out[i] = ' ';
-            out[i + 1] = ' ';
-            i++;
-            inAttribute = true;
-            continue;
+        if (!parsed) {
+            parsed = await parseModulesAndInstancesInFile(
+                text,
+                uri,
+                fileDefines,
+                enablePreprocess,
+                includeDirs,
+            );
         }
-    }
-
-    return out.join('');
-}
-
-async function preprocessVerilog(
-    clean: string,
-    defines: Set<string>,
-    fileUri: vscode.Uri,
-    includeDirs: vscode.Uri[],
-    visitedIncludes: Set<string>,
-): Promise<string> {
-    const out = clean.split('');
-    const stack: Array<{ parentActive: boolean; thisActive: boolean; branchTaken: boolean }> = [];
-
-    const isActive = () => (stack.length === 0 ? true : stack[stack.length - 1].thisActive);
-
-    const blankLine = (start: number, end: number) => {
-        for (let i = start; i < end; i++) {
-            out[i] = ' ';
+        if (logDebug) {
+            const rel = vscode.workspace.asRelativePath(uri, false);
+            logDebug(
+                `Parsed ${rel}: modules=${parsed.modules.length}, time=${Date.now() - start}ms`,
+            );
         }
-    };
-
-    let index = 0;
-    while (index < clean.length) {
-        const lineStart = index;
-        let lineEnd = clean.indexOf('\n', index);
-        if (lineEnd === -1) {
-            lineEnd = clean.length;
+        if (cache && stat) {
+            await cache.set(uri, contextKey, stat, hash, parsed);
         }
-
-        const lineText = clean.slice(lineStart, lineEnd);
-        const directiveMatch = /^\s*`(\w+)(.*)$/.exec(lineText);
-
-        if (directiveMatch) {
-            const directive = directiveMatch[1];
-            const rest = directiveMatch[2].trim();
-
-            if (directive === 'define') {
-                if (isActive()) {
-                    const nameMatch = /^([a-zA-Z_]\w*)/.exec(rest);
-                    if (nameMatch) {
-                        defines.add(nameMatch[1]);
-                    }
-                }
-            } else if (directive === 'undef') {
-                if (isActive()) {
-                    const nameMatch = /^([a-zA-Z_]\w*)/.exec(rest);
-                    if (nameMatch) {
-                        defines.delete(nameMatch[1]);
-                    }
-                }
-            } else if (directive === 'include') {
-                if (isActive()) {
-                    const includeMatch = /["<]([^">]+)[">]/.exec(rest);
-                    if (includeMatch) {
-                        const includePath = includeMatch[1].trim();
-                        const includeUri = await resolveIncludePath(
-                            includePath,
-                            fileUri,
-                            includeDirs,
-                        );
-                        if (includeUri) {
-                            const key = includeUri.fsPath.toLowerCase();
-                            if (!visitedIncludes.has(key)) {
-                                visitedIncludes.add(key);
-                                try {
-                                    const bytes = await vscode.workspace.fs.readFile(includeUri);
-                                    const text = Buffer.from(bytes).toString('utf8');
-                                    const cleanInclude = stripVerilogComments(text);
-                                    await preprocessVerilog(
-                                        cleanInclude,
-                                        defines,
-                                        includeUri,
-                                        includeDirs,
-                                        visitedIncludes,
-                                    );
-                                } catch (err) {
-                                    console.warn(`Failed to read include: ${includeUri.fsPath}`, err);
-                                }
-                            }
-                        }
-                    }
-                }
-            } else if (directive === 'ifdef' || directive === 'ifndef') {
-                const nameMatch = /^([a-zA-Z_]\w*)/.exec(rest);
-                const isDefined = nameMatch ? defines.has(nameMatch[1]) : false;
-                const condition = directive === 'ifdef' ? isDefined : !isDefined;
-                const parentActive = isActive();
-                const thisActive = parentActive && condition;
-                stack.push({ parentActive, thisActive, branchTaken: condition });
-            } else if (directive === 'elsif') {
-                const state = stack[stack.length - 1];
-                if (state) {
-                    if (!state.parentActive || state.branchTaken) {
-                        state.thisActive = false;
-                    } else {
-                        const nameMatch = /^([a-zA-Z_]\w*)/.exec(rest);
-                        const condition = nameMatch ? defines.has(nameMatch[1]) : false;
-                        state.thisActive = condition;
-                        state.branchTaken = condition;
-                    }
-                }
-            } else if (directive === 'else') {
-                const state = stack[stack.length - 1];
-                if (state) {
-                    if (!state.parentActive || state.branchTaken) {
-                        state.thisActive = false;
-                    } else {
-                        state.thisActive = true;
-                        state.branchTaken = true;
-                    }
-                }
-            } else if (directive === 'endif') {
-                if (stack.length > 0) {
-                    stack.pop();
-                }
-            }
-
-            blankLine(lineStart, lineEnd);
-        } else if (!isActive()) {
-            blankLine(lineStart, lineEnd);
-        }
-
-        index = lineEnd + 1;
+        return parsed;
     }
-
-    return out.join('');
-}
-
-async function parseModulesAndInstancesInFile(
-    source: string,
-    uri: vscode.Uri,
-    defines: Set<string>,
-    enablePreprocess: boolean,
-    includeDirs: vscode.Uri[],
-): Promise<ParsedModule[]> {
-    const modules: ParsedModule[] = [];
-    let clean = stripVerilogComments(source);
-    if (enablePreprocess) {
-        clean = await preprocessVerilog(
-            clean,
-            defines,
-            uri,
-            includeDirs,
-            new Set<string>(),
-        );
-    }
-
-    // Important: only space/tab, no '\n'
-    const moduleRegex = /^[ \t]*module\s+([a-zA-Z_]\w*)/gm;
-    const endRegex = /\bendmodule\b/gm;
-
-    const moduleMatches: { name: string; start: number; bodyStart: number }[] = [];
-    let m: RegExpExecArray | null;
-
-    while ((m = moduleRegex.exec(clean)) !== null) {
-        const name = m[1];
-        const bodyStart = moduleRegex.lastIndex;
-        moduleMatches.push({ name, start: m.index, bodyStart });
-    }
-
-    for (let i = 0; i < moduleMatches.length; i++) {
-        const cur = moduleMatches[i];
-
-        let bodyEnd = clean.length;
-
-        endRegex.lastIndex = cur.bodyStart;
-        const endMatch = endRegex.exec(clean);
-        if (endMatch) {
-            bodyEnd = endMatch.index;
-        }
-        if (i + 1 < moduleMatches.length && moduleMatches[i + 1].start < bodyEnd) {
-            bodyEnd = moduleMatches[i + 1].start;
-        }
-
-        // Ports: parse module header
-        const ports = parseModulePortsFromHeader(clean, uri, cur.start, cur.bodyStart);
-
-        // Instances: search inside module body
-        const instances = parseInstantiationsInText(clean, uri, cur.bodyStart, bodyEnd);
-
-        const defPos = offsetToPosition(clean, cur.start);
-        const defRange = new vscode.Range(defPos, defPos);
-
-        modules.push({
-            name: cur.name,
-            uri,
-            definitionRange: defRange,
-            instances,
-            ports,
-        });
-    }
-    return modules;
 }
 
 async function resolveIncludePath(
@@ -383,287 +178,3 @@ async function resolveIncludePath(
 
     return null;
 }
-
-function parseInstantiationsInText(
-    clean: string,
-    uri: vscode.Uri,
-    bodyStart: number,
-    bodyEnd: number,
-): InstanceRef[] {
-    const result: InstanceRef[] = [];
-
-    // Also without '\n' at line start
-    const instRegex =
-        /^[ \t]*(?:[a-zA-Z_]\w*\s*:\s*)?([a-zA-Z_]\w*)\s+([a-zA-Z_]\w*)\s*(?:#\s*\([^;]*\))?\s*\(/gm;
-
-    const keywords = new Set([
-        'if', 'else', 'begin', 'end', 'case', 'casex', 'casez',
-        'for', 'while', 'repeat', 'forever',
-        'always', 'always_ff', 'always_comb', 'always_latch',
-        'assign', 'deassign', 'force', 'release',
-        'wire', 'reg', 'logic', 'tri', 'tri0', 'tri1',
-        'module', 'endmodule',
-        'function', 'endfunction',
-        'task', 'endtask',
-        'generate', 'endgenerate',
-        'initial', 'final',
-        'parameter', 'localparam',
-        'specify', 'endspecify',
-        'primitive', 'endprimitive',
-    ]);
-
-    instRegex.lastIndex = bodyStart;
-    let m: RegExpExecArray | null;
-    while ((m = instRegex.exec(clean)) !== null) {
-        if (m.index >= bodyEnd) {
-            break;
-        }
-
-        const moduleName = m[1];
-        const instanceName = m[2];
-
-        const modLower = moduleName.toLowerCase();
-        const instLower = instanceName.toLowerCase();
-        if (keywords.has(modLower) || keywords.has(instLower)) {
-            continue;
-        }
-
-        const globalOffset = m.index;
-        const pos = offsetToPosition(clean, globalOffset);
-        const loc = new vscode.Location(uri, pos);
-
-        let bindings: PortBinding[] = [];
-        const openParenIndex = m.index + m[0].lastIndexOf('(');
-        if (openParenIndex >= 0) {
-            const closeParenIndex = findMatchingParen(clean, openParenIndex, bodyEnd);
-            if (closeParenIndex !== -1) {
-                const inner = clean.slice(openParenIndex + 1, closeParenIndex);
-                bindings = parseNamedPortBindings(inner, openParenIndex + 1, uri, clean);
-            }
-        }
-
-        result.push({ moduleName, instanceName, location: loc, bindings });
-    }
-
-    return result;
-}
-
-function parseNamedPortBindings(
-    text: string,
-    baseOffset: number,
-    uri: vscode.Uri,
-    clean: string,
-): PortBinding[] {
-    const bindings: PortBinding[] = [];
-    let i = 0;
-
-    while (i < text.length) {
-        const ch = text[i];
-        if (ch !== '.') {
-            i++;
-            continue;
-        }
-
-        i++;
-        const nameStart = i;
-        while (i < text.length && /[a-zA-Z0-9_]/.test(text[i])) {
-            i++;
-        }
-        const portName = text.slice(nameStart, i).trim();
-        while (i < text.length && /\s/.test(text[i])) {
-            i++;
-        }
-        if (i >= text.length || text[i] !== '(') {
-            continue;
-        }
-
-        const exprStart = i + 1;
-        const matchEnd = findMatchingParen(text, i, text.length - 1);
-        if (matchEnd === -1) {
-            break;
-        }
-        const expr = text.slice(exprStart, matchEnd).trim();
-        if (portName) {
-            const loc = new vscode.Location(
-                uri,
-                offsetToPosition(clean, baseOffset + nameStart),
-            );
-            bindings.push({
-                portName,
-                expr,
-                location: loc,
-            });
-        }
-        i = matchEnd + 1;
-    }
-
-    return bindings;
-}
-
-function findMatchingParen(text: string, openIndex: number, maxIndex: number): number {
-    let depth = 0;
-    for (let i = openIndex; i <= maxIndex && i < text.length; i++) {
-        const ch = text[i];
-        if (ch === '(') {
-            depth++;
-        } else if (ch === ')') {
-            depth--;
-            if (depth === 0) {
-                return i;
-            }
-        }
-    }
-    return -1;
-}
-
-function parseModulePortsFromHeader(
-    clean: string,
-    uri: vscode.Uri,
-    moduleStart: number,
-    bodyStart: number,
-): PortInfo[] {
-    const ports: PortInfo[] = [];
-
-    // Find end of header to avoid matching body parens.
-    const headerEnd = clean.indexOf(';', bodyStart);
-    if (headerEnd === -1) {
-        return ports;
-    }
-
-    // Skip optional parameter list: module name #( ... ) ( ... );
-    let scanIndex = bodyStart;
-    while (scanIndex < headerEnd && /\s/.test(clean[scanIndex])) {
-        scanIndex++;
-    }
-    if (scanIndex < headerEnd && clean[scanIndex] === '#') {
-        const paramOpen = clean.indexOf('(', scanIndex);
-        if (paramOpen !== -1 && paramOpen < headerEnd) {
-            const paramClose = findMatchingParen(clean, paramOpen, headerEnd);
-            if (paramClose === -1) {
-                return ports;
-            }
-            scanIndex = paramClose + 1;
-        }
-    }
-
-    const parenStart = clean.indexOf('(', scanIndex);
-    if (parenStart === -1 || parenStart >= headerEnd) {
-        return ports;
-    }
-
-    const parenEnd = findMatchingParen(clean, parenStart, headerEnd);
-    if (parenEnd === -1 || parenEnd > headerEnd) {
-        return ports;
-    }
-
-    // Inside parens: list of ports separated by commas
-    const innerStart = parenStart + 1;
-    const innerEnd = parenEnd;
-    const headerInner = clean.slice(innerStart, innerEnd);
-
-    let searchOffset = 0;
-    const parts = headerInner.split(',');
-
-    for (const rawPart of parts) {
-        const partOriginal = rawPart;
-        const trimmed = rawPart.trim();
-        if (!trimmed) {
-            searchOffset += partOriginal.length + 1;
-            continue;
-        }
-
-        // Rough direction parsing
-        let direction: PortInfo['direction'] = 'unknown';
-        let rest = trimmed;
-        const dirMatch = /^(input|output|inout|ref)\b(.*)$/i.exec(trimmed);
-        if (dirMatch) {
-            direction = dirMatch[1].toLowerCase() as PortInfo['direction'];
-            rest = dirMatch[2].trim();
-        }
-
-        // Port name is the last identifier before any assignment.
-        let nameSource = rest || trimmed;
-        const eqIndex = nameSource.indexOf('=');
-        if (eqIndex !== -1) {
-            nameSource = nameSource.slice(0, eqIndex).trimEnd();
-        }
-        const nameMatch = /([a-zA-Z_]\w*)\s*$/.exec(nameSource);
-        if (!nameMatch) {
-            searchOffset += partOriginal.length + 1;
-            continue;
-        }
-        const name = nameMatch[1];
-
-        // Range, if any, from the decl (ignore default assignment).
-        const rangeMatch = /(\[[^\]]+\])/.exec(nameSource);
-        const rangeText = rangeMatch ? rangeMatch[1] : undefined;
-
-        // Try to find the local index of the fragment inside headerInner
-        let localIndex = headerInner.indexOf(partOriginal, searchOffset);
-        if (localIndex === -1) {
-            localIndex = searchOffset;
-        }
-
-        // Global offset: inner start + localIndex + name offset
-        const nameOffsetInPart = partOriginal.indexOf(name);
-        const globalOffset = innerStart + localIndex + Math.max(nameOffsetInPart, 0);
-
-        const pos = offsetToPosition(clean, globalOffset);
-        const loc = new vscode.Location(uri, pos);
-
-        ports.push({
-            direction,
-            name,
-            rangeText,
-            location: loc,
-        });
-
-        searchOffset = localIndex + partOriginal.length + 1;
-    }
-
-    return ports;
-}
-
-// simple offset -> position (by lines)
-function offsetToPosition(text: string, offset: number): vscode.Position {
-    const lineStarts = getLineStarts(text);
-    let low = 0;
-    let high = lineStarts.length - 1;
-
-    while (low <= high) {
-        const mid = Math.floor((low + high) / 2);
-        const start = lineStarts[mid];
-        if (start === offset) {
-            return new vscode.Position(mid, 0);
-        }
-        if (start < offset) {
-            low = mid + 1;
-        } else {
-            high = mid - 1;
-        }
-    }
-
-    const line = Math.max(0, low - 1);
-    const character = offset - lineStarts[line];
-    return new vscode.Position(line, character);
-}
-
-let cachedText: string | null = null;
-let cachedLineStarts: number[] = [];
-
-function getLineStarts(text: string): number[] {
-    if (text === cachedText) {
-        return cachedLineStarts;
-    }
-
-    const starts = [0];
-    for (let i = 0; i < text.length; i++) {
-        if (text.charCodeAt(i) === 10 /* \n */) {
-            starts.push(i + 1);
-        }
-    }
-
-    cachedText = text;
-    cachedLineStarts = starts;
-    return starts;
-}
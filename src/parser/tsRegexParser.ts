@@ -0,0 +1,1969 @@
+// src/parser/tsRegexParser.ts
+// Text-level Verilog parsing. This module must not load 'vscode' at runtime so it
+// can also run inside parser worker threads; vscode values are created through
+// the installed ParserHost instead.
+import type * as vscode from 'vscode';
+import {
+    ClassInfo,
+    ClassMethod,
+    ClassProperty,
+    DefineTable,
+    GenerateScope,
+    IncludedFile,
+    InstanceRef,
+    MacroDefinition,
+    ModportInfo,
+    PackageItem,
+    PackageReference,
+    ParameterBinding,
+    ParameterInfo,
+    ParsedFile,
+    ParsedModule,
+    PortDirection,
+    PortInfo,
+    PortBinding,
+    PreprocessorProblem,
+    SignalInfo,
+} from './types';
+
+// Creates vscode values and reads include files. The parser treats the values it
+// gets back as opaque, apart from Uri.fsPath.
+export interface ParserHost {
+    position(line: number, character: number): vscode.Position;
+    range(start: vscode.Position, end: vscode.Position): vscode.Range;
+    location(uri: vscode.Uri, rangeOrPosition: vscode.Range | vscode.Position): vscode.Location;
+    resolveInclude(
+        includePath: string,
+        fileUri: vscode.Uri,
+        includeDirs: vscode.Uri[],
+    ): Promise<vscode.Uri | null>;
+    readText(uri: vscode.Uri): Promise<string>;
+}
+
+let host: ParserHost;
+
+export function setParserHost(next: ParserHost): void {
+    host = next;
+}
+
+// --------- helpers: regex parser ---------
+
+function stripVerilogComments(source: string): string {
+    // Preserve length and line positions by replacing comment/attribute chars with spaces.
+    const out = source.split('');
+    let inLineComment = false;
+    let inBlockComment = false;
+    let inAttribute = false;
+    let inString = false;
+
+    for (let i = 0; i < out.length; i++) {
+        const ch = out[i];
+        const next = i + 1 < out.length ? out[i + 1] : '';
+
+        if (inLineComment) {
+            if (ch === '\n') {
+                inLineComment = false;
+            } else {
+                out[i] = ' ';
+            }
+            continue;
+        }
+
+        if (inBlockComment) {
+            if (ch === '*' && next === '/') {
+                out[i] = ' ';
+                out[i + 1] = ' ';
+                i++;
+                inBlockComment = false;
+            } else if (ch !== '\n') {
+                out[i] = ' ';
+            }
+            continue;
+        }
+
+        if (inAttribute) {
+            if (ch === '*' && next === ')') {
+                out[i] = ' ';
+                out[i + 1] = ' ';
+                i++;
+                inAttribute = false;
+            } else if (ch !== '\n') {
+                out[i] = ' ';
+            }
+            continue;
+        }
+
+        if (inString) {
+            if (ch === '\\\\' && next !== '') {
+                i++;
+                continue;
+            }
+            if (ch === '\"') {
+                inString = false;
+            }
+            continue;
+        }
+
+        if (ch === '\"') {
+            inString = true;
+            continue;
+        }
+
+        if (ch === '/' && next === '/') {
+            out[i] = ' ';
+            out[i + 1] = ' ';
+            i++;
+            inLineComment = true;
+            continue;
+        }
+
+        if (ch === '/' && next === '*') {
+            out[i] = ' ';
+            out[i + 1] = ' ';
+            i++;
+            inBlockComment = true;
+            continue;
+        }
+
+        if (ch === '(' && next === '*') {
+            out[i] = ' ';
+            out[i + 1] = ' ';
+            i++;
+            inAttribute = true;
+            continue;
+        }
+    }
+
+    return out.join('');
+}
+
+interface MacroExpansion {
+    start: number;      // offsets of the macro usage in the preprocessed text
+    end: number;
+    text: string;
+}
+
+interface PreprocessResult {
+    text: string;
+    expansions: MacroExpansion[];
+    problems: PreprocessorProblem[];
+}
+
+// Parsed text (macros expanded) plus a mapping of its offsets back to positions
+// in the original file. Text produced by a macro maps to the macro usage.
+interface MappedSource {
+    text: string;
+    positionAt(offset: number): vscode.Position;
+}
+
+const MAX_MACRO_DEPTH = 32;
+
+async function preprocessVerilog(
+    clean: string,
+    defines: DefineTable,
+    fileUri: vscode.Uri,
+    includeDirs: vscode.Uri[],
+    visitedIncludes: Set<string>,
+    includeChain: string[],
+    includes: IncludedFile[],
+): Promise<PreprocessResult> {
+    const out = clean.split('');
+    const expansions: MacroExpansion[] = [];
+    const problems: PreprocessorProblem[] = [];
+    const stack: Array<{
+        parentActive: boolean;
+        thisActive: boolean;
+        branchTaken: boolean;
+        elseSeen: boolean;
+        directive: string;
+        lineStart: number;
+        lineEnd: number;
+    }> = [];
+
+    const isActive = () => (stack.length === 0 ? true : stack[stack.length - 1].thisActive);
+
+    const blankLine = (start: number, end: number) => {
+        for (let i = start; i < end; i++) {
+            if (clean[i] !== '\n') {
+                out[i] = ' ';
+            }
+        }
+    };
+
+    const findLineEnd = (from: number) => {
+        const end = clean.indexOf('\n', from);
+        return end === -1 ? clean.length : end;
+    };
+
+    // Problems are reported on the directive line, without surrounding whitespace.
+    const report = (
+        lineStart: number,
+        lineEnd: number,
+        message: string,
+        severity: PreprocessorProblem['severity'] = 'error',
+    ) => {
+        const lineText = clean.slice(lineStart, lineEnd);
+        const start = lineStart + lineText.length - lineText.trimStart().length;
+        const end = lineStart + lineText.trimEnd().length;
+        problems.push({
+            message,
+            severity,
+            location: host.location(
+                fileUri,
+                host.range(offsetToPosition(clean, start), offsetToPosition(clean, end)),
+            ),
+        });
+    };
+
+    // Record usages of known macros between start and end. A function-like macro
+    // call may continue on later lines; returns the end of the last line consumed.
+    const collectMacroUsages = (start: number, end: number): number => {
+        const usageRegex = /`([a-zA-Z_]\w*)/g;
+        usageRegex.lastIndex = start;
+        let m: RegExpExecArray | null;
+        while ((m = usageRegex.exec(clean)) !== null && m.index < end) {
+            const def = defines.get(m[1]);
+            if (!def) {
+                continue;
+            }
+            const call = readMacroCall(clean, m.index + m[0].length, def);
+            expansions.push({
+                start: m.index,
+                end: call.end,
+                text: expandMacro(def, call.args, defines, 0),
+            });
+            if (call.end > end) {
+                end = findLineEnd(call.end);
+            }
+            usageRegex.lastIndex = call.end;
+        }
+        return end;
+    };
+
+    let index = 0;
+    while (index < clean.length) {
+        const lineStart = index;
+        let lineEnd = findLineEnd(index);
+
+        const lineText = clean.slice(lineStart, lineEnd);
+        const directiveMatch = /^\s*`(\w+)(.*)$/.exec(lineText);
+
+        if (directiveMatch && directiveMatch[1] === 'define') {
+            // A trailing backslash continues the definition on the next line.
+            while (lineEnd < clean.length && /\\\s*$/.test(clean.slice(lineStart, lineEnd))) {
+                lineEnd = findLineEnd(lineEnd + 1);
+            }
+            if (isActive()) {
+                const def = parseMacroDefinition(
+                    clean.slice(lineStart, lineEnd).replace(/^\s*`define/, ''),
+                );
+                if (def) {
+                    defines.set(def.name, def);
+                }
+            }
+            blankLine(lineStart, lineEnd);
+        } else if (directiveMatch && !defines.has(directiveMatch[1])) {
+            const directive = directiveMatch[1];
+            const rest = directiveMatch[2].trim();
+
+            if (directive === 'undef') {
+                if (isActive()) {
+                    const nameMatch = /^([a-zA-Z_]\w*)/.exec(rest);
+                    if (nameMatch) {
+                        defines.delete(nameMatch[1]);
+                    }
+                }
+            } else if (directive === 'include') {
+                if (isActive()) {
+                    const includeMatch = /["<]([^">]+)[">]/.exec(rest);
+                    if (includeMatch) {
+                        const includePath = includeMatch[1].trim();
+                        const includeUri = await host.resolveInclude(
+                            includePath,
+                            fileUri,
+                            includeDirs,
+                        );
+                        if (!includes.some(inc => inc.path === includePath && inc.from === fileUri)) {
+                            includes.push({ path: includePath, from: fileUri, uri: includeUri });
+                        }
+                        if (!includeUri) {
+                            report(lineStart, lineEnd, `Cannot find include file "${includePath}".`, 'warning');
+                        } else {
+                            const key = includeUri.fsPath.toLowerCase();
+                            if (includeChain.includes(key)) {
+                                const cycle = [...includeChain.slice(includeChain.indexOf(key)), key]
+                                    .map(fileName)
+                                    .join(' -> ');
+                                report(lineStart, lineEnd, `Include cycle: ${cycle}.`);
+                            } else if (!visitedIncludes.has(key)) {
+                                visitedIncludes.add(key);
+                                try {
+                                    const text = await host.readText(includeUri);
+                                    const cleanInclude = stripVerilogComments(text);
+                                    const nested = await preprocessVerilog(
+                                        cleanInclude,
+                                        defines,
+                                        includeUri,
+                                        includeDirs,
+                                        visitedIncludes,
+                                        [...includeChain, key],
+                                        includes,
+                                    );
+                                    // Problems inside the header show up on this include line.
+                                    for (const problem of nested.problems) {
+                                        report(
+                                            lineStart,
+                                            lineEnd,
+                                            `In "${includePath}": ${problem.message}`,
+                                            problem.severity,
+                                        );
+                                    }
+                                } catch (err) {
+                                    console.warn(`Failed to read include: ${includeUri.fsPath}`, err);
+                                    report(lineStart, lineEnd, `Cannot read include file "${includePath}".`, 'warning');
+                                }
+                            }
+                        }
+                    }
+                }
+            } else if (directive === 'ifdef' || directive === 'ifndef') {
+                const nameMatch = /^([a-zA-Z_]\w*)/.exec(rest);
+                const isDefined = nameMatch ? defines.has(nameMatch[1]) : false;
+                const condition = directive === 'ifdef' ? isDefined : !isDefined;
+                const parentActive = isActive();
+                const thisActive = parentActive && condition;
+                stack.push({
+                    parentActive,
+                    thisActive,
+                    branchTaken: condition,
+                    elseSeen: false,
+                    directive: `\`${directive} ${rest}`.trim(),
+                    lineStart,
+                    lineEnd,
+                });
+            } else if (directive === 'elsif') {
+                const state = stack[stack.length - 1];
+                if (!state) {
+                    report(lineStart, lineEnd, '`elsif without a matching `ifdef or `ifndef.');
+                } else if (state.elseSeen) {
+                    report(lineStart, lineEnd, '`elsif after `else.');
+                }
+                if (state) {
+                    if (!state.parentActive || state.branchTaken) {
+                        state.thisActive = false;
+                    } else {
+                        const nameMatch = /^([a-zA-Z_]\w*)/.exec(rest);
+                        const condition = nameMatch ? defines.has(nameMatch[1]) : false;
+                        state.thisActive = condition;
+                        state.branchTaken = condition;
+                    }
+                }
+            } else if (directive === 'else') {
+                const state = stack[stack.length - 1];
+                if (!state) {
+                    report(lineStart, lineEnd, '`else without a matching `ifdef or `ifndef.');
+                } else if (state.elseSeen) {
+                    report(lineStart, lineEnd, 'Second `else for the same `ifdef.');
+                }
+                if (state) {
+                    state.elseSeen = true;
+                    if (!state.parentActive || state.branchTaken) {
+                        state.thisActive = false;
+                    } else {
+                        state.thisActive = true;
+                        state.branchTaken = true;
+                    }
+                }
+            } else if (directive === 'endif') {
+                if (stack.length > 0) {
+                    stack.pop();
+                } else {
+                    report(lineStart, lineEnd, '`endif without a matching `ifdef or `ifndef.');
+                }
+            }
+
+            blankLine(lineStart, lineEnd);
+        } else if (!isActive()) {
+            blankLine(lineStart, lineEnd);
+        } else {
+            lineEnd = collectMacroUsages(lineStart, lineEnd);
+        }
+
+        index = lineEnd + 1;
+    }
+
+    for (const state of stack) {
+        report(state.lineStart, state.lineEnd, `Unterminated ${state.directive}: missing \`endif.`);
+    }
+
+    return { text: out.join(''), expansions, problems };
+}
+
+function fileName(fsPath: string): string {
+    return /[^\\/]*$/.exec(fsPath)?.[0] ?? fsPath;
+}
+
+function parseMacroDefinition(text: string): MacroDefinition | null {
+    const nameMatch = /^\s*([a-zA-Z_]\w*)/.exec(text);
+    if (!nameMatch) {
+        return null;
+    }
+    let pos = nameMatch[0].length;
+    let params: MacroDefinition['params'];
+    // Function-like only when '(' follows the name without whitespace.
+    if (text[pos] === '(') {
+        const close = findMatchingParen(text, pos, text.length - 1);
+        if (close === -1) {
+            return null;
+        }
+        params = splitMacroArgs(text.slice(pos + 1, close))
+            .map(part => {
+                const eq = part.indexOf('=');
+                return eq === -1
+                    ? { name: part.trim() }
+                    : { name: part.slice(0, eq).trim(), defaultValue: part.slice(eq + 1).trim() };
+            })
+            .filter(param => param.name);
+        pos = close + 1;
+    }
+    const body = text.slice(pos).replace(/\\[ \t]*\r?\n/g, '\n').trim();
+    return { name: nameMatch[1], params, body };
+}
+
+// Reads the argument list of a function-like macro starting after its name.
+function readMacroCall(
+    text: string,
+    nameEnd: number,
+    def: MacroDefinition,
+): { end: number; args: string[] } {
+    if (!def.params) {
+        return { end: nameEnd, args: [] };
+    }
+    let pos = nameEnd;
+    while (pos < text.length && /\s/.test(text[pos])) {
+        pos++;
+    }
+    if (text[pos] !== '(') {
+        return { end: nameEnd, args: [] };
+    }
+    const close = findMatchingParen(text, pos, text.length - 1);
+    if (close === -1) {
+        return { end: nameEnd, args: [] };
+    }
+    return { end: close + 1, args: splitMacroArgs(text.slice(pos + 1, close)) };
+}
+
+function expandMacro(
+    def: MacroDefinition,
+    args: string[],
+    defines: DefineTable,
+    depth: number,
+): string {
+    let body = def.body;
+    if (def.params && def.params.length > 0) {
+        const values = new Map<string, string>();
+        def.params.forEach((param, i) => {
+            const arg = args[i]?.trim();
+            values.set(param.name, arg || param.defaultValue || '');
+        });
+        // Skip `` (pasting) and `NAME (macro references); substitute bare identifiers.
+        body = body.replace(/``|`[a-zA-Z_]\w*|[a-zA-Z_]\w*/g, token =>
+            token.startsWith('`') ? token : values.get(token) ?? token,
+        );
+    }
+    // Token pasting and stringification.
+    body = body.replace(/``/g, '').replace(/`"/g, '"');
+    if (depth >= MAX_MACRO_DEPTH) {
+        return body;
+    }
+
+    let result = '';
+    let last = 0;
+    const usageRegex = /`([a-zA-Z_]\w*)/g;
+    let m: RegExpExecArray | null;
+    while ((m = usageRegex.exec(body)) !== null) {
+        const nested = defines.get(m[1]);
+        if (!nested) {
+            continue;
+        }
+        const call = readMacroCall(body, m.index + m[0].length, nested);
+        result += body.slice(last, m.index) + expandMacro(nested, call.args, defines, depth + 1);
+        last = call.end;
+        usageRegex.lastIndex = call.end;
+    }
+    return result + body.slice(last);
+}
+
+function splitMacroArgs(text: string): string[] {
+    return splitTopLevelCommas(text).map(part => part.text);
+}
+
+// Split on top-level commas, ignoring commas nested in brackets or strings.
+export function splitTopLevelCommas(text: string): Array<{ text: string; start: number }> {
+    const parts: Array<{ text: string; start: number }> = [];
+    let depth = 0;
+    let inString = false;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') {
+                i++;
+            } else if (ch === '"') {
+                inString = false;
+            }
+            continue;
+        }
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            parts.push({ text: text.slice(start, i), start });
+            start = i + 1;
+        }
+    }
+    parts.push({ text: text.slice(start), start });
+    return parts;
+}
+
+function applyMacroExpansions(original: string, expansions: MacroExpansion[]): MappedSource {
+    if (expansions.length === 0) {
+        return { text: original, positionAt: offset => offsetToPosition(original, offset) };
+    }
+
+    // Segments of the expanded text: verbatim copies map offset-by-offset,
+    // macro output maps to the start of the usage.
+    const expandedStarts: number[] = [];
+    const originalStarts: number[] = [];
+    const verbatim: boolean[] = [];
+    const parts: string[] = [];
+    let length = 0;
+    let last = 0;
+    const addSegment = (text: string, originalStart: number, isVerbatim: boolean) => {
+        expandedStarts.push(length);
+        originalStarts.push(originalStart);
+        verbatim.push(isVerbatim);
+        parts.push(text);
+        length += text.length;
+    };
+    for (const e of expansions) {
+        addSegment(original.slice(last, e.start), last, true);
+        addSegment(e.text, e.start, false);
+        last = e.end;
+    }
+    addSegment(original.slice(last), last, true);
+
+    const toOriginal = (offset: number) => {
+        let low = 0;
+        let high = expandedStarts.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (expandedStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return verbatim[low]
+            ? originalStarts[low] + (offset - expandedStarts[low])
+            : originalStarts[low];
+    };
+
+    return {
+        text: parts.join(''),
+        positionAt: offset => offsetToPosition(original, toOriginal(offset)),
+    };
+}
+
+export async function parseModulesAndInstancesInFile(
+    source: string,
+    uri: vscode.Uri,
+    defines: DefineTable,
+    enablePreprocess: boolean,
+    includeDirs: vscode.Uri[],
+): Promise<ParsedFile> {
+    const modules: ParsedModule[] = [];
+    let problems: PreprocessorProblem[] = [];
+    const includes: IncludedFile[] = [];
+    // Kept for macro usages the preprocessor blanks, e.g. `uvm_component_utils(...).
+    const commentFree = stripVerilogComments(source);
+    let clean = commentFree;
+    let expansions: MacroExpansion[] = [];
+    if (enablePreprocess) {
+        const pre = await preprocessVerilog(
+            clean,
+            defines,
+            uri,
+            includeDirs,
+            new Set<string>(),
+            [uri.fsPath.toLowerCase()],
+            includes,
+        );
+        clean = pre.text;
+        expansions = pre.expansions;
+        problems = pre.problems;
+    }
+    const src = applyMacroExpansions(clean, expansions);
+    clean = src.text;
+    const classSpans = findClassDeclarations(clean);
+
+    // Important: only space/tab, no '\n'
+    const moduleRegex =
+        /^[ \t]*(module|macromodule|interface|package)\s+(?:(?:static|automatic)\s+)?([a-zA-Z_]\w*)/gm;
+
+    const moduleMatches: {
+        kind: ParsedModule['kind'];
+        name: string;
+        start: number;
+        nameStart: number;
+        bodyStart: number;
+    }[] = [];
+    let m: RegExpExecArray | null;
+
+    while ((m = moduleRegex.exec(clean)) !== null) {
+        const name = m[2];
+        if (name === 'class') {
+            continue; // interface class
+        }
+        const kind = m[1] === 'interface' || m[1] === 'package' ? m[1] : 'module';
+        // Header imports ("module m import pkg::*; (...)") come before parameters and ports.
+        const importRegex = /\s*import\b[^;]*;/y;
+        let bodyStart = moduleRegex.lastIndex;
+        importRegex.lastIndex = bodyStart;
+        while (importRegex.exec(clean)) {
+            bodyStart = importRegex.lastIndex;
+        }
+        moduleMatches.push({ kind, name, start: m.index, nameStart: m.index + m[0].length - name.length, bodyStart });
+    }
+
+    for (let i = 0; i < moduleMatches.length; i++) {
+        const cur = moduleMatches[i];
+
+        let bodyEnd = clean.length;
+
+        const endRegex = cur.kind === 'interface'
+            ? /\bendinterface\b/g
+            : cur.kind === 'package' ? /\bendpackage\b/g : /\bendmodule\b/g;
+        endRegex.lastIndex = cur.bodyStart;
+        const endMatch = endRegex.exec(clean);
+        if (endMatch) {
+            bodyEnd = endMatch.index;
+        }
+        if (i + 1 < moduleMatches.length && moduleMatches[i + 1].start < bodyEnd) {
+            bodyEnd = moduleMatches[i + 1].start;
+        }
+
+        const isPackage = cur.kind === 'package';
+
+        // Ports: parse module header, then non-ANSI directions from the body
+        const ports = isPackage ? [] : parseModulePortsFromHeader(src, uri, cur.start, cur.bodyStart);
+        mergeBodyPortDeclarations(ports, src, uri, cur.bodyStart, bodyEnd);
+
+        // Instances: search inside module body
+        const instances = isPackage ? [] : parseInstantiationsInText(src, uri, cur.bodyStart, bodyEnd);
+
+        // Parameters: header #( ... ) list and body parameter/localparam statements
+        const classRanges = classSpans.map((c): [number, number] => [c.start, c.end]);
+        const parameters = parseModuleParameters(src, uri, cur.bodyStart, bodyEnd, classRanges);
+
+        // Interfaces: modport views
+        const modports = cur.kind === 'interface' ? parseModports(src, uri, cur.bodyStart, bodyEnd) : [];
+
+        // Internal nets and variables; ports are listed separately
+        const signals = isPackage
+            ? []
+            : parseSignalDeclarations(src, uri, cur.bodyStart, bodyEnd, new Set(ports.map(p => p.name)));
+
+        // Packages: typedefs, functions and tasks; every unit: imports and pkg::item uses
+        const packageItems = isPackage ? parsePackageItems(src, uri, cur.bodyStart, bodyEnd, classRanges) : [];
+        const { imports, references } = parsePackageReferences(src, uri, cur.start, bodyEnd);
+
+        const defPos = src.positionAt(cur.start);
+        const defRange = host.range(src.positionAt(cur.nameStart), src.positionAt(cur.nameStart + cur.name.length));
+        const unitEnd = endMatch && endMatch.index === bodyEnd ? bodyEnd + endMatch[0].length : bodyEnd;
+
+        modules.push({
+            kind: cur.kind,
+            name: cur.name,
+            uri,
+            definitionRange: defRange,
+            fullRange: host.range(defPos, src.positionAt(unitEnd)),
+            instances,
+            ports,
+            parameters,
+            modports,
+            signals,
+            packageItems,
+            imports,
+            packageReferences: references,
+        });
+    }
+
+    // Classes are scanned separately since they usually live inside packages.
+    for (const cls of classSpans) {
+        const { properties, methods } = parseClassBody(src, uri, cls.bodyStart, cls.bodyEnd);
+        const { imports, references } = parsePackageReferences(src, uri, cls.start, cls.bodyEnd);
+        const registration = new RegExp(
+            `\`(uvm_(?:component|object)(?:_param)?_utils)(?:_begin)?\\s*\\(\\s*${cls.name}\\b`,
+        ).exec(commentFree)?.[1];
+        const classInfo: ClassInfo = { baseClass: cls.baseClass, properties, methods, registration };
+        const defPos = src.positionAt(cls.start);
+
+        modules.push({
+            kind: 'class',
+            name: cls.name,
+            uri,
+            definitionRange: host.range(src.positionAt(cls.nameStart), src.positionAt(cls.nameStart + cls.name.length)),
+            fullRange: host.range(defPos, src.positionAt(cls.end)),
+            instances: [],
+            ports: [],
+            parameters: [],
+            modports: [],
+            signals: [],
+            packageItems: [],
+            imports,
+            packageReferences: references,
+            classInfo,
+        });
+    }
+    return { modules, problems, includes };
+}
+
+interface ClassSpan {
+    name: string;
+    baseClass?: string;
+    start: number;
+    nameStart: number;
+    bodyStart: number;        // after the ';' that ends the class header
+    bodyEnd: number;          // at endclass
+    end: number;              // after endclass
+}
+
+// "class [automatic] name [#(...)] [extends base [#(...)]] ... ; ... endclass". Nested
+// classes are left inside their outer class.
+function findClassDeclarations(clean: string): ClassSpan[] {
+    const spans: ClassSpan[] = [];
+    const classRegex = /^[ \t]*(?:virtual\s+)?class\s+(?:(?:static|automatic)\s+)?([a-zA-Z_]\w*)/gm;
+    const extendsRegex = /\s*extends\s+((?:[a-zA-Z_]\w*\s*::\s*)*[a-zA-Z_]\w*)/y;
+    const endRegex = /\bendclass\b/g;
+
+    const skipParameterList = (index: number): number => {
+        let scan = index;
+        while (scan < clean.length && /\s/.test(clean[scan])) {
+            scan++;
+        }
+        if (clean[scan] !== '#') {
+            return index;
+        }
+        const open = clean.indexOf('(', scan);
+        const close = open === -1 ? -1 : findMatchingParen(clean, open, clean.length - 1);
+        return close === -1 ? index : close + 1;
+    };
+
+    let m: RegExpExecArray | null;
+    while ((m = classRegex.exec(clean)) !== null) {
+        let scan = skipParameterList(classRegex.lastIndex);
+        extendsRegex.lastIndex = scan;
+        const ext = extendsRegex.exec(clean);
+        if (ext) {
+            scan = skipParameterList(extendsRegex.lastIndex);
+        }
+        const headerEnd = clean.indexOf(';', scan);
+        if (headerEnd === -1) {
+            break;
+        }
+        endRegex.lastIndex = headerEnd;
+        const endMatch = endRegex.exec(clean);
+        const bodyEnd = endMatch ? endMatch.index : clean.length;
+        const end = endMatch ? bodyEnd + endMatch[0].length : clean.length;
+        spans.push({
+            name: m[1],
+            baseClass: ext?.[1].replace(/\s+/g, ''),
+            start: m.index,
+            nameStart: m.index + m[0].length - m[1].length,
+            bodyStart: headerEnd + 1,
+            bodyEnd,
+            end,
+        });
+        classRegex.lastIndex = end;
+    }
+    return spans;
+}
+
+// Walks the class body statement by statement: methods (with or without bodies) are
+// recorded and skipped, constraints and covergroups are skipped, and what remains are
+// property declarations.
+function parseClassBody(
+    src: MappedSource,
+    uri: vscode.Uri,
+    bodyStart: number,
+    bodyEnd: number,
+): { properties: ClassProperty[]; methods: ClassMethod[] } {
+    const clean = src.text;
+    const properties: ClassProperty[] = [];
+    const methods: ClassMethod[] = [];
+    const methodRegex = /(?:(?:extern|pure|virtual|static|protected|local)\s+)*(function|task)\b/y;
+    const skipRegex = /(constraint|covergroup|class|typedef|import|export|parameter|localparam)\b/y;
+    const location = (offset: number) => host.location(uri, src.positionAt(offset));
+
+    const statementEnd = (from: number): number => {
+        let depth = 0;
+        for (let k = from; k < bodyEnd; k++) {
+            const ch = clean[k];
+            if (ch === '(' || ch === '{' || ch === '[') {
+                depth++;
+            } else if (ch === ')' || ch === '}' || ch === ']') {
+                depth--;
+            } else if (ch === ';' && depth <= 0) {
+                return k;
+            }
+        }
+        return bodyEnd;
+    };
+    const skipPast = (regex: RegExp, from: number): number => {
+        regex.lastIndex = from;
+        const end = regex.exec(clean);
+        return end && end.index < bodyEnd ? end.index + end[0].length : bodyEnd;
+    };
+
+    let i = bodyStart;
+    while (i < bodyEnd) {
+        while (i < bodyEnd && /\s/.test(clean[i])) {
+            i++;
+        }
+        if (i >= bodyEnd) {
+            break;
+        }
+
+        // Macro usages that were not expanded, e.g. `uvm_component_utils(my_env)
+        if (clean[i] === '`') {
+            const macro = /`\w*\s*/y;
+            macro.lastIndex = i;
+            i = macro.exec(clean) ? macro.lastIndex : i + 1;
+            if (clean[i] === '(') {
+                const close = findMatchingParen(clean, i, bodyEnd);
+                i = close === -1 ? bodyEnd : close + 1;
+            }
+            continue;
+        }
+
+        methodRegex.lastIndex = i;
+        const method = methodRegex.exec(clean);
+        if (method) {
+            const headerStart = i + method[0].length;
+            const headerEnd = statementEnd(headerStart);
+            const beforeArgs = clean.slice(headerStart, headerEnd).split('(')[0];
+            const nameMatch = /([a-zA-Z_]\w*)\s*$/.exec(beforeArgs);
+            if (nameMatch) {
+                methods.push({
+                    kind: method[1] as ClassMethod['kind'],
+                    name: nameMatch[1],
+                    location: location(headerStart + nameMatch.index),
+                });
+            }
+            const prototype = /\b(extern|pure)\b/.test(method[0]);
+            i = prototype
+                ? headerEnd + 1
+                : skipPast(method[1] === 'function' ? /\bendfunction\b/g : /\bendtask\b/g, headerEnd);
+            continue;
+        }
+
+        skipRegex.lastIndex = i;
+        const skipped = skipRegex.exec(clean);
+        if (skipped) {
+            if (skipped[1] === 'constraint') {
+                const open = clean.indexOf('{', i);
+                let depth = 0;
+                let k = open === -1 || open >= bodyEnd ? bodyEnd : open;
+                for (; k < bodyEnd; k++) {
+                    if (clean[k] === '{') {
+                        depth++;
+                    } else if (clean[k] === '}' && --depth === 0) {
+                        break;
+                    }
+                }
+                i = k + 1;
+            } else if (skipped[1] === 'covergroup') {
+                i = skipPast(/\bendgroup\b/g, i);
+            } else if (skipped[1] === 'class') {
+                i = skipPast(/\bendclass\b/g, i);
+            } else {
+                i = statementEnd(i) + 1;
+            }
+            continue;
+        }
+
+        const end = statementEnd(i);
+        const statement = clean.slice(i, end);
+        // The first declarator carries the type, later ones ("int a, b;") only a name.
+        let typeText: string | undefined;
+        for (const part of splitTopLevelCommas(statement)) {
+            const declText = part.text.split('=')[0];
+            let name: string | undefined;
+            if (typeText === undefined) {
+                const first = /^([\s\S]*\S)\s+([a-zA-Z_]\w*)\s*(?:\[[^\]]*\]\s*)*$/.exec(declText);
+                typeText = first?.[1].trim().replace(/\s+/g, ' ');
+                name = first?.[2];
+            } else {
+                name = /^\s*([a-zA-Z_]\w*)\s*(?:\[[^\]]*\]\s*)*$/.exec(declText)?.[1];
+            }
+            if (!typeText || !name || !/^[\w\s:#()[\]$+\-*/.']+$/.test(typeText)) {
+                break;
+            }
+            properties.push({
+                name,
+                typeText,
+                location: location(i + part.start + declText.lastIndexOf(name)),
+            });
+        }
+        i = end + 1;
+    }
+
+    return { properties, methods };
+}
+
+function parseInstantiationsInText(
+    src: MappedSource,
+    uri: vscode.Uri,
+    bodyStart: number,
+    bodyEnd: number,
+): InstanceRef[] {
+    const clean = src.text;
+    const result: InstanceRef[] = [];
+
+    // Also without '\n' at line start. The rest of the declaration
+    // ("#( ... ) name (") is checked by hand because override lists nest parens.
+    const instRegex = /^[ \t]*(?:[a-zA-Z_]\w*\s*:\s*)?([a-zA-Z_]\w*)\s*/gm;
+    const instanceNameRegex = /([a-zA-Z_]\w*)\s*(\[[^\];\n]*\])?\s*\(/y;
+
+    const keywords = new Set([
+        'if', 'else', 'begin', 'end', 'case', 'casex', 'casez',
+        'for', 'while', 'repeat', 'forever',
+        'always', 'always_ff', 'always_comb', 'always_latch',
+        'assign', 'deassign', 'force', 'release',
+        'wire', 'reg', 'logic', 'tri', 'tri0', 'tri1',
+        'module', 'endmodule',
+        'interface', 'endinterface', 'modport',
+        'package', 'endpackage', 'import', 'export',
+        'clocking', 'endclocking',
+        'function', 'endfunction',
+        'task', 'endtask',
+        'generate', 'endgenerate',
+        'initial', 'final',
+        'parameter', 'localparam',
+        'specify', 'endspecify',
+        'primitive', 'endprimitive',
+        // Assertions look like instances: "assert property (...)", "a1: cover property (...)".
+        'assert', 'assume', 'cover', 'restrict', 'expect',
+        'property', 'endproperty', 'sequence', 'endsequence',
+    ]);
+
+    const generateBlocks = collectGenerateBlocks(src, uri, bodyStart, bodyEnd);
+
+    instRegex.lastIndex = bodyStart;
+    let m: RegExpExecArray | null;
+    while ((m = instRegex.exec(clean)) !== null) {
+        if (m.index >= bodyEnd) {
+            break;
+        }
+
+        const moduleName = m[1];
+        let scan = m.index + m[0].length;
+
+        // Optional parameter overrides: #( ... ) or a single #value.
+        let paramText = '';
+        let paramOffset = -1;
+        if (clean[scan] === '#') {
+            scan++;
+            while (scan < bodyEnd && /\s/.test(clean[scan])) {
+                scan++;
+            }
+            if (clean[scan] === '(') {
+                const paramClose = findMatchingParen(clean, scan, bodyEnd);
+                if (paramClose === -1) {
+                    instRegex.lastIndex = m.index + 1;
+                    continue;
+                }
+                paramText = clean.slice(scan + 1, paramClose);
+                paramOffset = scan + 1;
+                scan = paramClose + 1;
+            } else {
+                const valueMatch = /^[\w.']+/.exec(clean.slice(scan, scan + 64));
+                if (valueMatch) {
+                    paramText = valueMatch[0];
+                    paramOffset = scan;
+                    scan += valueMatch[0].length;
+                }
+            }
+            while (scan < bodyEnd && /\s/.test(clean[scan])) {
+                scan++;
+            }
+        }
+
+        instanceNameRegex.lastIndex = scan;
+        const nameMatch = instanceNameRegex.exec(clean);
+        if (!nameMatch) {
+            instRegex.lastIndex = m.index + 1;
+            continue;
+        }
+        const instanceName = nameMatch[1];
+        const arrayRange = nameMatch[2]?.replace(/\s+/g, '');
+        instRegex.lastIndex = instanceNameRegex.lastIndex;
+
+        const modLower = moduleName.toLowerCase();
+        const instLower = instanceName.toLowerCase();
+        if (keywords.has(modLower) || keywords.has(instLower)) {
+            continue;
+        }
+
+        const globalOffset = m.index;
+        const pos = src.positionAt(globalOffset);
+        const loc = host.location(uri, pos);
+        const nameOffset = m.index + m[0].trimEnd().length - moduleName.length;
+        const moduleNameLocation = host.location(
+            uri,
+            host.range(src.positionAt(nameOffset), src.positionAt(nameOffset + moduleName.length)),
+        );
+
+        let bindings: PortBinding[] = [];
+        let wildcardLocation: vscode.Location | undefined;
+        const openParenIndex = instanceNameRegex.lastIndex - 1;
+        const closeParenIndex = findMatchingParen(clean, openParenIndex, bodyEnd);
+        if (closeParenIndex !== -1) {
+            const inner = clean.slice(openParenIndex + 1, closeParenIndex);
+            bindings = parsePortBindings(inner, openParenIndex + 1, uri, src);
+            // .* is expanded against the target's ports once the design is indexed.
+            const wildcardMatch = /\.\s*\*/.exec(inner);
+            if (wildcardMatch) {
+                wildcardLocation = host.location(
+                    uri,
+                    src.positionAt(openParenIndex + 1 + wildcardMatch.index),
+                );
+            }
+        }
+
+        const parameterBindings = paramOffset === -1
+            ? []
+            : parseParameterBindings(paramText, paramOffset, uri, src);
+
+        const instanceOffset = m.index;
+        const scopes = generateBlocks
+            .filter(b => b.start < instanceOffset && instanceOffset < b.end)
+            .map(b => b.scope);
+
+        result.push({
+            moduleName,
+            instanceName,
+            location: loc,
+            moduleNameLocation,
+            bindings,
+            parameterBindings,
+            arrayRange,
+            wildcardLocation,
+            generateScopes: scopes.length > 0 ? scopes : undefined,
+        });
+    }
+
+    return result;
+}
+
+// begin/end blocks that belong to a generate for/if/case, ordered by start offset.
+// Other begin/end pairs (always, initial, ...) are tracked only to keep nesting right.
+function collectGenerateBlocks(
+    src: MappedSource,
+    uri: vscode.Uri,
+    bodyStart: number,
+    bodyEnd: number,
+): Array<{ start: number; end: number; scope: GenerateScope }> {
+    const clean = src.text;
+    const blocks: Array<{ start: number; end: number; scope: GenerateScope }> = [];
+    const stack: Array<{ start: number; scope: GenerateScope | null }> = [];
+    const tokenRegex = /\b(begin|end)\b/g;
+
+    tokenRegex.lastIndex = bodyStart;
+    let m: RegExpExecArray | null;
+    while ((m = tokenRegex.exec(clean)) !== null && m.index < bodyEnd) {
+        if (m[1] === 'begin') {
+            stack.push({ start: m.index, scope: describeGenerateBlock(src, uri, bodyStart, m.index) });
+            continue;
+        }
+        const open = stack.pop();
+        if (open?.scope) {
+            blocks.push({ start: open.start, end: m.index, scope: open.scope });
+        }
+    }
+
+    return blocks.sort((a, b) => a.start - b.start);
+}
+
+// Look at what precedes "begin" to tell a generate for/if/else/case item block apart.
+function describeGenerateBlock(
+    src: MappedSource,
+    uri: vscode.Uri,
+    bodyStart: number,
+    beginIndex: number,
+): GenerateScope | null {
+    const clean = src.text;
+    const labelRegex = /\s*:\s*([a-zA-Z_]\w*)/y;
+    labelRegex.lastIndex = beginIndex + 'begin'.length;
+    const label = labelRegex.exec(clean)?.[1];
+
+    let j = beginIndex - 1;
+    while (j >= bodyStart && /\s/.test(clean[j])) {
+        j--;
+    }
+    if (j < bodyStart) {
+        return null;
+    }
+
+    let kind: GenerateScope['kind'];
+    let headerStart: number;
+    let loopVariable: string | undefined;
+
+    if (clean[j] === ')') {
+        let depth = 0;
+        let open = j;
+        for (; open >= bodyStart; open--) {
+            if (clean[open] === ')') {
+                depth++;
+            } else if (clean[open] === '(') {
+                depth--;
+                if (depth === 0) {
+                    break;
+                }
+            }
+        }
+        if (open < bodyStart) {
+            return null;
+        }
+        const keyword = /([a-zA-Z_]\w*)\s*$/.exec(clean.slice(Math.max(bodyStart, open - 32), open));
+        if (!keyword || (keyword[1] !== 'for' && keyword[1] !== 'if')) {
+            return null;
+        }
+        kind = keyword[1];
+        headerStart = open - keyword[0].length;
+        if (kind === 'for') {
+            loopVariable = /^\s*(?:genvar\s+)?([a-zA-Z_]\w*)\s*=/.exec(clean.slice(open + 1, j))?.[1];
+        } else {
+            const elseMatch = /\belse\s*$/.exec(clean.slice(Math.max(bodyStart, headerStart - 16), headerStart));
+            if (elseMatch) {
+                headerStart -= elseMatch[0].length;
+            }
+        }
+    } else if (j - 3 >= bodyStart && /\belse$/.test(clean.slice(Math.max(bodyStart, j - 4), j + 1))) {
+        kind = 'if';
+        headerStart = j - 3;
+    } else if (clean[j] === ':') {
+        // Case item: the label runs back to the previous statement boundary.
+        let k = j - 1;
+        while (k >= bodyStart && clean[k] !== ';' && clean[k] !== '\n') {
+            k--;
+        }
+        const itemText = clean.slice(k + 1, j).replace(/^\s*(?:end\b)?\s*/, '');
+        if (!itemText.trim()) {
+            return null;
+        }
+        kind = 'case';
+        headerStart = j - itemText.length;
+    } else {
+        return null;
+    }
+
+    return {
+        kind,
+        label,
+        header: clean.slice(headerStart, kind === 'case' ? j + 1 : beginIndex).trim().replace(/\s+/g, ' '),
+        loopVariable,
+        location: host.location(uri, src.positionAt(headerStart)),
+    };
+}
+
+function parseParameterBindings(
+    text: string,
+    baseOffset: number,
+    uri: vscode.Uri,
+    src: MappedSource,
+): ParameterBinding[] {
+    if (/^\s*\./.test(text)) {
+        return parseNamedPortBindings(text, baseOffset, uri, src).map((b, position) => ({
+            paramName: b.portName,
+            position,
+            expr: b.expr,
+            location: b.location,
+        }));
+    }
+
+    return splitTopLevelCommas(text)
+        .filter(part => part.text.trim())
+        .map((part, position) => {
+            const lead = part.text.length - part.text.trimStart().length;
+            return {
+                position,
+                expr: part.text.trim(),
+                location: host.location(uri, src.positionAt(baseOffset + part.start + lead)),
+            };
+        });
+}
+
+// Parameters from a header "#( ... )" list or a body parameter/localparam statement.
+// Items without their own keyword (or type) inherit it from the previous item.
+function parseParameterDeclarations(
+    text: string,
+    baseOffset: number,
+    uri: vscode.Uri,
+    src: MappedSource,
+    defaultKind: ParameterInfo['kind'],
+): ParameterInfo[] {
+    const params: ParameterInfo[] = [];
+    let kind = defaultKind;
+    let typeText: string | undefined;
+
+    for (const part of splitTopLevelCommas(text)) {
+        let decl = part.text;
+        let value: string | undefined;
+        const eqIndex = decl.indexOf('=');
+        if (eqIndex !== -1) {
+            value = decl.slice(eqIndex + 1).trim();
+            decl = decl.slice(0, eqIndex);
+        }
+
+        const kindMatch = /^\s*(parameter|localparam)\b/.exec(decl);
+        let declStart = 0;
+        if (kindMatch) {
+            kind = kindMatch[1] as ParameterInfo['kind'];
+            declStart = kindMatch[0].length;
+            typeText = undefined;
+        }
+
+        const nameMatch = /([a-zA-Z_]\w*)\s*(?:\[[^\]]*\]\s*)*$/.exec(decl);
+        if (!nameMatch) {
+            continue;
+        }
+        const declType = decl.slice(declStart, nameMatch.index).trim();
+        if (declType) {
+            typeText = declType;
+        }
+
+        const nameOffset = nameMatch.index;
+        params.push({
+            kind,
+            name: nameMatch[1],
+            typeText,
+            defaultValue: value,
+            location: host.location(uri, src.positionAt(baseOffset + part.start + nameOffset)),
+        });
+    }
+
+    return params;
+}
+
+// Statements inside skipRanges (classes declared in a package) are not the unit's own.
+function parseBodyParameters(
+    src: MappedSource,
+    uri: vscode.Uri,
+    bodyStart: number,
+    bodyEnd: number,
+    skipRanges: Array<[number, number]> = [],
+): ParameterInfo[] {
+    const clean = src.text;
+    const params: ParameterInfo[] = [];
+    const paramRegex = /\b(parameter|localparam)\b([^;]*);/g;
+    paramRegex.lastIndex = bodyStart;
+    let m: RegExpExecArray | null;
+    while ((m = paramRegex.exec(clean)) !== null && m.index < bodyEnd) {
+        const offset = m.index;
+        if (skipRanges.some(([start, end]) => offset >= start && offset < end)) {
+            continue;
+        }
+        params.push(...parseParameterDeclarations(
+            m[2],
+            m.index + m[1].length,
+            uri,
+            src,
+            m[1] as ParameterInfo['kind'],
+        ));
+    }
+    return params;
+}
+
+function parsePortBindings(
+    text: string,
+    baseOffset: number,
+    uri: vscode.Uri,
+    src: MappedSource,
+): PortBinding[] {
+    if (!text.trim() || /^\s*\./.test(text)) {
+        return parseNamedPortBindings(text, baseOffset, uri, src);
+    }
+
+    // Positional: port names are filled in once the target module is indexed.
+    return splitTopLevelCommas(text).map((part, position) => {
+        const lead = part.text.length - part.text.trimStart().length;
+        return {
+            portName: '',
+            expr: part.text.trim(),
+            location: host.location(uri, src.positionAt(baseOffset + part.start + lead)),
+            position,
+        };
+    });
+}
+
+function parseNamedPortBindings(
+    text: string,
+    baseOffset: number,
+    uri: vscode.Uri,
+    src: MappedSource,
+): PortBinding[] {
+    const bindings: PortBinding[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch !== '.') {
+            i++;
+            continue;
+        }
+
+        i++;
+        const nameStart = i;
+        while (i < text.length && /[a-zA-Z0-9_]/.test(text[i])) {
+            i++;
+        }
+        const portName = text.slice(nameStart, i).trim();
+        while (i < text.length && /\s/.test(text[i])) {
+            i++;
+        }
+        if (i >= text.length || text[i] !== '(') {
+            // SystemVerilog .name: connects the signal of the same name.
+            if (portName) {
+                bindings.push({
+                    portName,
+                    expr: portName,
+                    location: host.location(uri, src.positionAt(baseOffset + nameStart)),
+                    implicit: 'name',
+                });
+            }
+            continue;
+        }
+
+        const exprStart = i + 1;
+        const matchEnd = findMatchingParen(text, i, text.length - 1);
+        if (matchEnd === -1) {
+            break;
+        }
+        const expr = text.slice(exprStart, matchEnd).trim();
+        if (portName) {
+            const loc = host.location(
+                uri,
+                src.positionAt(baseOffset + nameStart),
+            );
+            bindings.push({
+                portName,
+                expr,
+                location: loc,
+            });
+        }
+        i = matchEnd + 1;
+    }
+
+    return bindings;
+}
+
+function findMatchingParen(text: string, openIndex: number, maxIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i <= maxIndex && i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '(') {
+            depth++;
+        } else if (ch === ')') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return -1;
+}
+
+// Locate "#( ... )" right after the module name; close is -1 when unbalanced.
+function findHeaderParameterList(
+    clean: string,
+    bodyStart: number,
+    headerEnd: number,
+): { open: number; close: number } | null {
+    let scanIndex = bodyStart;
+    while (scanIndex < headerEnd && /\s/.test(clean[scanIndex])) {
+        scanIndex++;
+    }
+    if (scanIndex >= headerEnd || clean[scanIndex] !== '#') {
+        return null;
+    }
+    const open = clean.indexOf('(', scanIndex);
+    if (open === -1 || open >= headerEnd) {
+        return null;
+    }
+    return { open, close: findMatchingParen(clean, open, headerEnd) };
+}
+
+function parseModuleParameters(
+    src: MappedSource,
+    uri: vscode.Uri,
+    bodyStart: number,
+    bodyEnd: number,
+    skipRanges: Array<[number, number]> = [],
+): ParameterInfo[] {
+    const clean = src.text;
+    let headerEnd = clean.indexOf(';', bodyStart);
+    if (headerEnd === -1 || headerEnd > bodyEnd) {
+        headerEnd = bodyEnd;
+    }
+
+    const params: ParameterInfo[] = [];
+    const paramList = findHeaderParameterList(clean, bodyStart, headerEnd);
+    if (paramList && paramList.close !== -1) {
+        params.push(...parseParameterDeclarations(
+            clean.slice(paramList.open + 1, paramList.close),
+            paramList.open + 1,
+            uri,
+            src,
+            'parameter',
+        ));
+    }
+    params.push(...parseBodyParameters(src, uri, headerEnd, bodyEnd, skipRanges));
+    return params;
+}
+
+function parseModulePortsFromHeader(
+    src: MappedSource,
+    uri: vscode.Uri,
+    moduleStart: number,
+    bodyStart: number,
+): PortInfo[] {
+    const clean = src.text;
+    const ports: PortInfo[] = [];
+
+    // Find end of header to avoid matching body parens.
+    const headerEnd = clean.indexOf(';', bodyStart);
+    if (headerEnd === -1) {
+        return ports;
+    }
+
+    // Skip optional parameter list: module name #( ... ) ( ... );
+    let scanIndex = bodyStart;
+    const paramList = findHeaderParameterList(clean, bodyStart, headerEnd);
+    if (paramList) {
+        if (paramList.close === -1) {
+            return ports;
+        }
+        scanIndex = paramList.close + 1;
+    }
+
+    const parenStart = clean.indexOf('(', scanIndex);
+    if (parenStart === -1 || parenStart >= headerEnd) {
+        return ports;
+    }
+
+    const parenEnd = findMatchingParen(clean, parenStart, headerEnd);
+    if (parenEnd === -1 || parenEnd > headerEnd) {
+        return ports;
+    }
+
+    // Inside parens: list of ports separated by commas
+    const innerStart = parenStart + 1;
+    const innerEnd = parenEnd;
+    const headerInner = clean.slice(innerStart, innerEnd);
+
+    let searchOffset = 0;
+    const parts = headerInner.split(',');
+    // A port without a direction keyword takes the direction of the previous one.
+    let previousDirection: PortDirection = 'unknown';
+
+    for (const rawPart of parts) {
+        const partOriginal = rawPart;
+        const trimmed = rawPart.trim();
+        if (!trimmed) {
+            searchOffset += partOriginal.length + 1;
+            continue;
+        }
+
+        // Rough direction parsing
+        let direction: PortInfo['direction'] = 'unknown';
+        let rest = trimmed;
+        let interfaceName: string | undefined;
+        let modportName: string | undefined;
+        let interfaceCandidate: boolean | undefined;
+        const dirMatch = /^(input|output|inout|ref)\b(.*)$/i.exec(trimmed);
+        if (dirMatch) {
+            direction = dirMatch[1].toLowerCase() as PortInfo['direction'];
+            rest = dirMatch[2].trim();
+        } else {
+            // Interface port: "axi_if.master m_axi" or generic "interface m". "axi_if m_axi"
+            // reads like a typedef port ("pkt_t data"); the design index settles which it is.
+            const ifMatch = /^([a-zA-Z_]\w*)(?:\s*\.\s*([a-zA-Z_]\w*))?\s+[a-zA-Z_]\w*\s*(?:\[[^\]]*\]\s*)*$/.exec(trimmed);
+            if (ifMatch && (ifMatch[2] || ifMatch[1] === 'interface')) {
+                direction = 'interface';
+                interfaceName = ifMatch[1] === 'interface' ? undefined : ifMatch[1];
+                modportName = ifMatch[2];
+            } else {
+                direction = previousDirection;
+                interfaceCandidate = ifMatch && !DATA_TYPE_KEYWORDS.has(ifMatch[1]) ? true : undefined;
+            }
+        }
+        if (direction !== 'interface') {
+            previousDirection = direction;
+        }
+
+        // Port name is the last identifier before any assignment.
+        const lead = partOriginal.length - partOriginal.trimStart().length;
+        const nameSourceStart = rest ? lead + trimmed.length - rest.length : lead;
+        let nameSource = rest || trimmed;
+        const eqIndex = nameSource.indexOf('=');
+        if (eqIndex !== -1) {
+            nameSource = nameSource.slice(0, eqIndex).trimEnd();
+        }
+        const nameMatch = /([a-zA-Z_]\w*)\s*$/.exec(nameSource);
+        if (!nameMatch) {
+            searchOffset += partOriginal.length + 1;
+            continue;
+        }
+        const name = nameMatch[1];
+
+        // Range, if any, from the decl (ignore default assignment).
+        const rangeMatch = /(\[[^\]]+\])/.exec(nameSource);
+        const rangeText = rangeMatch ? rangeMatch[1] : undefined;
+        const typeText = direction === 'interface'
+            ? undefined
+            : declarationTypeText(nameSource.slice(0, nameMatch.index));
+
+        // Try to find the local index of the fragment inside headerInner
+        let localIndex = headerInner.indexOf(partOriginal, searchOffset);
+        if (localIndex === -1) {
+            localIndex = searchOffset;
+        }
+
+        // Global offset: inner start + localIndex + name offset
+        const globalOffset = innerStart + localIndex + nameSourceStart + nameMatch.index;
+
+        const pos = src.positionAt(globalOffset);
+        const loc = host.location(uri, pos);
+
+        // "input [7:0] a, b" or "axi_if.master m0, m1": a bare name repeats the
+        // previous port's declaration.
+        const previous = ports[ports.length - 1];
+        if (previous && /^[a-zA-Z_]\w*\s*(?:\[[^\]]*\]\s*)*(?:=[\s\S]*)?$/.test(trimmed)) {
+            ports.push({ ...previous, name, location: loc });
+        } else {
+            ports.push({
+                direction,
+                name,
+                typeText,
+                rangeText,
+                location: loc,
+                interfaceName,
+                modportName,
+                interfaceCandidate,
+            });
+        }
+
+        searchOffset = localIndex + partOriginal.length + 1;
+    }
+
+    return ports;
+}
+
+// Data type words before a declared name: "wire signed [7:0] " -> "wire signed".
+function declarationTypeText(beforeName: string): string | undefined {
+    const typeText = beforeName.replace(/\[[^\]]*\]/g, ' ').replace(/\s+/g, ' ').trim();
+    return typeText || undefined;
+}
+
+// Built-in net and variable types; any other leading identifier on a port without a
+// direction may be an interface name.
+const DATA_TYPE_KEYWORDS = new Set([
+    'wire', 'reg', 'logic', 'bit', 'byte', 'shortint', 'int', 'longint', 'integer',
+    'time', 'real', 'shortreal', 'realtime', 'string', 'event', 'chandle', 'var',
+    'tri', 'tri0', 'tri1', 'triand', 'trior', 'trireg', 'wand', 'wor', 'uwire',
+    'supply0', 'supply1', 'signed', 'unsigned',
+]);
+
+// "modport master (output valid, input ready, import send), slave (...);"
+function parseModports(src: MappedSource, uri: vscode.Uri, bodyStart: number, bodyEnd: number): ModportInfo[] {
+    const clean = src.text;
+    const modports: ModportInfo[] = [];
+    const modportRegex = /\bmodport\b([^;]*);/g;
+    modportRegex.lastIndex = bodyStart;
+    let m: RegExpExecArray | null;
+    while ((m = modportRegex.exec(clean)) !== null && m.index < bodyEnd) {
+        const listOffset = m.index + 'modport'.length;
+        const text = m[1];
+        const itemRegex = /([a-zA-Z_]\w*)\s*\(/g;
+        let item: RegExpExecArray | null;
+        while ((item = itemRegex.exec(text)) !== null) {
+            const open = item.index + item[0].length - 1;
+            const close = findMatchingParen(text, open, text.length - 1);
+            if (close === -1) {
+                break;
+            }
+            const ports: ModportInfo['ports'] = [];
+            let direction: PortDirection | null = null;
+            for (const part of splitTopLevelCommas(text.slice(open + 1, close))) {
+                const words = part.text.trim().split(/\s+/);
+                if (/^(input|output|inout|ref)$/.test(words[0])) {
+                    direction = words.shift() as PortDirection;
+                } else if (/^(import|export|clocking)$/.test(words[0])) {
+                    direction = null;
+                }
+                const name = words[words.length - 1];
+                if (direction && name && /^[a-zA-Z_]\w*$/.test(name)) {
+                    ports.push({ direction, name });
+                }
+            }
+            modports.push({
+                name: item[1],
+                ports,
+                location: host.location(uri, src.positionAt(listOffset + item.index)),
+            });
+            itemRegex.lastIndex = close + 1;
+        }
+    }
+    return modports;
+}
+
+const NET_TYPES = new Set([
+    'wire', 'tri', 'tri0', 'tri1', 'triand', 'trior', 'trireg', 'wand', 'wor', 'uwire',
+    'supply0', 'supply1',
+]);
+
+// Keywords that open or close a block without ending in ";".
+const BLOCK_KEYWORDS = [
+    'begin', 'end', 'else', 'endcase', 'generate', 'endgenerate', 'fork', 'join', 'join_any', 'join_none',
+];
+
+// Leading words of statements that look like "<type> <name> ...;" but declare no signal.
+const NON_DECLARATION_KEYWORDS = new Set([
+    'assign', 'deassign', 'force', 'release', 'defparam', 'alias',
+    'always', 'always_ff', 'always_comb', 'always_latch', 'initial', 'final',
+    'if', 'else', 'for', 'foreach', 'while', 'do', 'repeat', 'forever', 'case', 'casex', 'casez',
+    'begin', 'end', 'fork', 'join', 'join_any', 'join_none', 'return', 'break', 'continue',
+    'disable', 'wait', 'unique', 'unique0', 'priority', 'default',
+    'input', 'output', 'inout', 'ref', 'parameter', 'localparam', 'specparam', 'genvar',
+    'typedef', 'enum', 'struct', 'union', 'import', 'export', 'function', 'task',
+    'module', 'interface', 'package', 'class', 'program', 'generate', 'endgenerate',
+    'modport', 'clocking', 'property', 'sequence', 'assert', 'assume', 'cover', 'restrict',
+    'bind', 'let', 'constraint', 'covergroup', 'specify', 'automatic', 'static',
+]);
+
+// Net and variable declarations ("logic [7:0] data, valid;", "state_t st;") outside
+// functions and tasks. Names in skipNames (the unit's ports) are left out.
+function parseSignalDeclarations(
+    src: MappedSource,
+    uri: vscode.Uri,
+    bodyStart: number,
+    bodyEnd: number,
+    skipNames: Set<string> = new Set(),
+): SignalInfo[] {
+    const clean = src.text;
+    const signals: SignalInfo[] = [];
+    const subroutines = findSubroutineRanges(clean, bodyStart, bodyEnd);
+    // Block keywords end no statement with ";", so a match skips over them to the
+    // statement that follows ("end else begin : blk  logic x;").
+    const declRegex = new RegExp(
+        `^[ \\t]*(?:(?:${BLOCK_KEYWORDS.join('|')})\\b(?:\\s*:\\s*[a-zA-Z_]\\w*)?\\s*)*` +
+            '((?:[a-zA-Z_]\\w*\\s*::\\s*)?[a-zA-Z_]\\w*)\\b([^;]*);',
+        'gm',
+    );
+    const firstDeclRegex =
+        /^([\s\S]*?)\s*((?:\[[^\]]*\]\s*)*)\b([a-zA-Z_]\w*)\s*((?:\[[^\]]*\]\s*)*)$/;
+    const nextDeclRegex = /^\s*([a-zA-Z_]\w*)\s*((?:\[[^\]]*\]\s*)*)$/;
+    declRegex.lastIndex = bodyStart;
+    let m: RegExpExecArray | null;
+    while ((m = declRegex.exec(clean)) !== null && m.index < bodyEnd) {
+        const declEnd = m.index + m[0].length - 1;
+        const declStart = declEnd - m[2].length - m[1].length;
+        const leadWord = m[1].replace(/\s+/g, '');
+        if (subroutines.some(([start, end]) => declStart >= start && declStart < end)) {
+            continue;
+        }
+        if (NON_DECLARATION_KEYWORDS.has(leadWord)) {
+            // "if (...) begin" and similar: resume after the "begin" so the block's
+            // first declaration is not swallowed by this statement.
+            const begin = /\bbegin\b(?:\s*:\s*[a-zA-Z_]\w*)?/.exec(m[2]);
+            if (begin) {
+                declRegex.lastIndex = declEnd - m[2].length + begin.index + begin[0].length;
+            }
+            continue;
+        }
+        // A user-defined type must be followed by dimensions or a name, never by
+        // "(", "=", "<=" or ":" (instances, assignments, labels).
+        if (!DATA_TYPE_KEYWORDS.has(leadWord) && !/^\s*[[a-zA-Z_]/.test(m[2])) {
+            continue;
+        }
+
+        const declText = clean.slice(declStart, declEnd);
+        let typeText = '';
+        let rangeText: string | undefined;
+        for (const part of splitTopLevelCommas(declText)) {
+            const target = part.text.split('=')[0];
+            if (target.includes('(')) {
+                break;
+            }
+            const decl = typeText ? nextDeclRegex.exec(target) : firstDeclRegex.exec(target);
+            if (!decl) {
+                break;
+            }
+            let name: string;
+            let unpacked: string;
+            if (!typeText) {
+                typeText = decl[1].trim().replace(/\s+/g, ' ');
+                rangeText = decl[2].trim().replace(/\s+/g, '') || undefined;
+                name = decl[3];
+                unpacked = decl[4];
+                if (!typeText) {
+                    break;
+                }
+            } else {
+                name = decl[1];
+                unpacked = decl[2];
+            }
+            if (skipNames.has(name) || DATA_TYPE_KEYWORDS.has(name)) {
+                continue;
+            }
+            const nameIndex = new RegExp(`\\b${name}\\s*(?:\\[[^\\]]*\\]\\s*)*$`).exec(target)?.index ?? 0;
+            signals.push({
+                name,
+                kind: NET_TYPES.has(leadWord) ? 'net' : 'variable',
+                typeText,
+                rangeText,
+                unpackedText: unpacked.trim().replace(/\s+/g, '') || undefined,
+                location: host.location(uri, src.positionAt(declStart + part.start + nameIndex)),
+            });
+        }
+    }
+    return signals;
+}
+
+function parsePackageItems(
+    src: MappedSource,
+    uri: vscode.Uri,
+    bodyStart: number,
+    bodyEnd: number,
+    classRanges: Array<[number, number]>,
+): PackageItem[] {
+    const clean = src.text;
+    const items: Array<PackageItem & { offset: number }> = [];
+    const push = (kind: PackageItem['kind'], name: string, offset: number) => {
+        if (classRanges.some(([start, end]) => offset >= start && offset < end)) {
+            return; // class members are indexed with the class
+        }
+        items.push({ kind, name, location: host.location(uri, src.positionAt(offset)), offset });
+    };
+
+    // The typedef name is the last identifier before the ';' outside any braces.
+    const typedefRegex = /\btypedef\b/g;
+    typedefRegex.lastIndex = bodyStart;
+    let m: RegExpExecArray | null;
+    while ((m = typedefRegex.exec(clean)) !== null && m.index < bodyEnd) {
+        let depth = 0;
+        let end = m.index + m[0].length;
+        for (; end < bodyEnd; end++) {
+            const ch = clean[end];
+            if (ch === '{') {
+                depth++;
+            } else if (ch === '}') {
+                depth--;
+            } else if (ch === ';' && depth === 0) {
+                break;
+            }
+        }
+        const declStart = m.index + m[0].length;
+        const declText = clean.slice(declStart, end);
+        const nameMatch = /([a-zA-Z_]\w*)\s*(?:\[[^\]]*\]\s*)*$/.exec(declText);
+        // "typedef class name;" only forward-declares a class.
+        if (nameMatch && !/^\s*(?:interface\s+)?class\b/.test(declText)) {
+            push('typedef', nameMatch[1], declStart + nameMatch.index);
+        }
+        typedefRegex.lastIndex = end;
+    }
+
+    const subroutineRegex = /\b(function|task)\s+(?:(?:automatic|static|virtual)\s+)*[^;(]*?([a-zA-Z_]\w*)\s*[(;]/g;
+    subroutineRegex.lastIndex = bodyStart;
+    while ((m = subroutineRegex.exec(clean)) !== null && m.index < bodyEnd) {
+        push(m[1] as PackageItem['kind'], m[2], m.index + m[0].lastIndexOf(m[2]));
+    }
+
+    return items
+        .sort((a, b) => a.offset - b.offset)
+        .map(({ kind, name, location }) => ({ kind, name, location }));
+}
+
+function parsePackageReferences(
+    src: MappedSource,
+    uri: vscode.Uri,
+    start: number,
+    end: number,
+): { imports: PackageReference[]; references: PackageReference[] } {
+    const clean = src.text;
+    const imports: PackageReference[] = [];
+    const references: PackageReference[] = [];
+    const scopedRegex = /\b([a-zA-Z_]\w*)\s*::\s*(\*|[a-zA-Z_]\w*)/g;
+    const importSpans: Array<[number, number]> = [];
+
+    const importRegex = /\bimport\b([^;]*);/g;
+    importRegex.lastIndex = start;
+    let m: RegExpExecArray | null;
+    while ((m = importRegex.exec(clean)) !== null && m.index < end) {
+        importSpans.push([m.index, m.index + m[0].length]);
+        const listOffset = m.index + 'import'.length;
+        let item: RegExpExecArray | null;
+        scopedRegex.lastIndex = 0;
+        while ((item = scopedRegex.exec(m[1])) !== null) {
+            imports.push({
+                packageName: item[1],
+                itemName: item[2],
+                location: host.location(uri, src.positionAt(listOffset + item.index)),
+            });
+        }
+    }
+
+    scopedRegex.lastIndex = start;
+    while ((m = scopedRegex.exec(clean)) !== null && m.index < end) {
+        const offset = m.index;
+        if (m[2] === '*' || importSpans.some(([s, e]) => offset >= s && offset < e)) {
+            continue;
+        }
+        references.push({
+            packageName: m[1],
+            itemName: m[2],
+            location: host.location(uri, src.positionAt(offset)),
+        });
+    }
+
+    return { imports, references };
+}
+
+function findSubroutineRanges(clean: string, start: number, end: number): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    const subroutineRegex = /\b(function|task)\b[\s\S]*?\bend(?:function|task)\b/g;
+    subroutineRegex.lastIndex = start;
+    let m: RegExpExecArray | null;
+    while ((m = subroutineRegex.exec(clean)) !== null && m.index < end) {
+        ranges.push([m.index, m.index + m[0].length]);
+    }
+    return ranges;
+}
+
+// Modport lists and clocking blocks, whose directions name existing signals.
+function findModportAndClockingRanges(clean: string, start: number, end: number): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    const regex = /\bmodport\b[^;]*;|\bclocking\b[\s\S]*?\bendclocking\b/g;
+    regex.lastIndex = start;
+    let m: RegExpExecArray | null;
+    while ((m = regex.exec(clean)) !== null && m.index < end) {
+        ranges.push([m.index, m.index + m[0].length]);
+    }
+    return ranges;
+}
+
+// Verilog-1995 headers only list port names; "input [7:0] a, b;" statements in the
+// body supply direction and range. Ports declared in the header keep their declaration,
+// and declarations inside functions, tasks, modports and clocking blocks are skipped.
+function mergeBodyPortDeclarations(
+    ports: PortInfo[],
+    src: MappedSource,
+    uri: vscode.Uri,
+    bodyStart: number,
+    bodyEnd: number,
+): void {
+    if (ports.length === 0) {
+        return;
+    }
+    const clean = src.text;
+    const headerEnd = clean.indexOf(';', bodyStart);
+    if (headerEnd === -1 || headerEnd > bodyEnd) {
+        return;
+    }
+
+    const skipped = [
+        ...findSubroutineRanges(clean, headerEnd, bodyEnd),
+        ...findModportAndClockingRanges(clean, headerEnd, bodyEnd),
+    ];
+    const nonAnsiPorts = ports.filter(p =>
+        p.direction === 'unknown' && !p.typeText && !p.rangeText && !p.interfaceCandidate);
+    const portsByName = new Map(nonAnsiPorts.map(p => [p.name, p]));
+    const declRegex = /\b(input|output|inout)\b([^;]*);/g;
+    declRegex.lastIndex = headerEnd;
+    let m: RegExpExecArray | null;
+    while ((m = declRegex.exec(clean)) !== null && m.index < bodyEnd) {
+        const declIndex = m.index;
+        if (skipped.some(([start, end]) => declIndex >= start && declIndex < end)) {
+            continue;
+        }
+        const direction = m[1] as PortInfo['direction'];
+        const declOffset = m.index + m[1].length;
+        // The packed range before the first name applies to the whole statement.
+        const rangeText = /^[^,]*?(\[[^\]]+\])\s*[a-zA-Z_]/.exec(m[2])?.[1];
+        const typeText = declarationTypeText(/^[^,]*?(?=[a-zA-Z_]\w*\s*(?:\[[^\]]*\]\s*)*(?:[,=]|$))/s.exec(m[2])?.[0] ?? '');
+        for (const part of splitTopLevelCommas(m[2])) {
+            const lead = part.text.length - part.text.trimStart().length;
+            const nameMatch = /([a-zA-Z_]\w*)\s*(?:\[[^\]]*\]\s*)*(?:=.*)?$/s.exec(part.text.trim());
+            const port = nameMatch ? portsByName.get(nameMatch[1]) : undefined;
+            if (!nameMatch || !port || port.declarationLocation) {
+                continue;
+            }
+            port.direction = direction;
+            port.rangeText = rangeText;
+            port.typeText = typeText;
+            port.declarationLocation = host.location(
+                uri,
+                src.positionAt(declOffset + part.start + lead + nameMatch.index),
+            );
+        }
+    }
+}
+
+// simple offset -> position (by lines)
+function offsetToPosition(text: string, offset: number): vscode.Position {
+    const lineStarts = getLineStarts(text);
+    let low = 0;
+    let high = lineStarts.length - 1;
+
+    while (low <= high) {
+        const mid = Math.floor((low + high) / 2);
+        const start = lineStarts[mid];
+        if (start === offset) {
+            return host.position(mid, 0);
+        }
+        if (start < offset) {
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    const line = Math.max(0, low - 1);
+    const character = offset - lineStarts[line];
+    return host.position(line, character);
+}
+
+let cachedText: string | null = null;
+let cachedLineStarts: number[] = [];
+
+function getLineStarts(text: string): number[] {
+    if (text === cachedText) {
+        return cachedLineStarts;
+    }
+
+    const starts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) === 10 /* \n */) {
+            starts.push(i + 1);
+        }
+    }
+
+    cachedText = text;
+    cachedLineStarts = starts;
+    return starts;
+}
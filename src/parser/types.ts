@@ -1,49 +1,188 @@
 import * as vscode from 'vscode';
+import type { ParseCache } from './parseCache';
 
-export type PortDirection = 'input' | 'output' | 'inout' | 'ref' | 'unknown';
+export type PortDirection = 'input' | 'output' | 'inout' | 'ref' | 'interface' | 'unknown';
 
 export interface PortInfo {
     direction: PortDirection;
     name: string;
+    typeText?: string;        // e.g. "logic", "wire signed", "int"; unset for implicit nets
     rangeText?: string;       // e.g. "[7:0]" or "[ADDR_W-1:0]"
     location: vscode.Location;
+    declarationLocation?: vscode.Location;   // body input/output/inout of a non-ANSI port
+    interfaceName?: string;   // interface port: "axi_if.master m_axi" -> axi_if
+    modportName?: string;     // interface port: "axi_if.master m_axi" -> master
+    // "<type> name" without a direction: an interface port if <type> is an indexed
+    // interface, otherwise a port of that type with the previous port's direction.
+    interfaceCandidate?: boolean;
+}
+
+export interface ModportInfo {
+    name: string;
+    ports: Array<{ direction: PortDirection; name: string }>;
+    location: vscode.Location;
+}
+
+export interface SignalInfo {
+    name: string;
+    kind: 'net' | 'variable';
+    typeText: string;         // e.g. "logic", "wire signed", "bus_pkg::pkt_t"
+    rangeText?: string;       // packed dimensions, e.g. "[7:0]"
+    unpackedText?: string;    // unpacked dimensions, e.g. "[0:15]"
+    location: vscode.Location;
+}
+
+export interface ParameterInfo {
+    kind: 'parameter' | 'localparam';
+    name: string;
+    typeText?: string;        // e.g. "int" or "[7:0]"
+    defaultValue?: string;
+    location: vscode.Location;
 }
 
 export interface InstanceRef {
     moduleName: string;
     instanceName: string;
     location: vscode.Location;
+    moduleNameLocation: vscode.Location;  // the module name at the instantiation site
     bindings: PortBinding[];
+    parameterBindings: ParameterBinding[];
+    arrayRange?: string;                  // instance array dimension, e.g. "[31:0]"
+    wildcardLocation?: vscode.Location;   // set when the port list contains .*
+    generateScopes?: GenerateScope[];     // enclosing generate blocks, outermost first
+}
+
+// A begin/end block of a generate for/if/case that encloses instances.
+export interface GenerateScope {
+    kind: 'for' | 'if' | 'case';
+    label?: string;           // begin : label; unnamed blocks have none
+    header: string;           // e.g. "for (i = 0; i < N; i++)", "else if (EN)", "2'b01:"
+    loopVariable?: string;    // genvar of a for loop
+    location: vscode.Location;
+}
+
+export interface ParameterBinding {
+    paramName?: string;       // unset for positional overrides
+    position: number;         // index in the #( ... ) list
+    expr: string;
+    location: vscode.Location;
 }
 
 export interface PortBinding {
-    portName: string;
+    portName: string;         // for positional bindings: resolved from the target's ports, '' if unknown
     expr: string;
     location: vscode.Location;
+    position?: number;        // set for positional connections
+    implicit?: 'name' | 'wildcard';     // .name or expanded from .*
+}
+
+// typedef, function or task declared in a package.
+export interface PackageItem {
+    kind: 'typedef' | 'function' | 'task';
+    name: string;
+    location: vscode.Location;
+}
+
+// "import pkg::item;" / "import pkg::*;" or a scoped "pkg::item" reference.
+export interface PackageReference {
+    packageName: string;
+    itemName: string;         // '*' for a wildcard import
+    location: vscode.Location;
 }
 
+export interface ClassProperty {
+    name: string;
+    typeText: string;         // e.g. "rand bit [7:0]", "uvm_analysis_port #(tx)"
+    location: vscode.Location;
+}
+
+export interface ClassMethod {
+    kind: 'function' | 'task';
+    name: string;
+    location: vscode.Location;
+}
+
+export interface ClassInfo {
+    baseClass?: string;       // extends target without parameters, e.g. "uvm_env" or "pkg::base"
+    properties: ClassProperty[];
+    methods: ClassMethod[];
+    registration?: string;    // factory macro, e.g. "uvm_component_utils"
+}
+
+// Design units: modules and SystemVerilog interfaces (both instantiable), packages and classes.
 export interface ParsedModule {
+    kind: 'module' | 'interface' | 'package' | 'class';
     name: string;
     uri: vscode.Uri;
     definitionRange: vscode.Range;
+    fullRange: vscode.Range;  // from the unit keyword through its end keyword
     instances: InstanceRef[];
     ports: PortInfo[];
+    parameters: ParameterInfo[];
+    modports: ModportInfo[];  // interfaces only
+    signals: SignalInfo[];    // body nets and variables other than ports
+    packageItems: PackageItem[];              // packages only
+    imports: PackageReference[];
+    packageReferences: PackageReference[];    // pkg::item outside import statements
+    classInfo?: ClassInfo;                    // classes only
+}
+
+// An unbalanced conditional, unresolved include or include cycle found while preprocessing.
+export interface PreprocessorProblem {
+    message: string;
+    severity: 'error' | 'warning';
+    location: vscode.Location;   // the offending directive
+}
+
+// An active `include directive; uri is null when the path did not resolve.
+export interface IncludedFile {
+    path: string;             // as written in the directive
+    from: vscode.Uri;         // the file containing the directive
+    uri: vscode.Uri | null;
+}
+
+// Parser output for one file.
+export interface ParsedFile {
+    modules: ParsedModule[];
+    problems: PreprocessorProblem[];
+    includes: IncludedFile[];   // the file's own includes and those of its headers
 }
 
 export interface ParsedDesign {
     modules: ParsedModule[];
     modulesByName: Map<string, ParsedModule[]>;
     modulesByFile: Map<string, ParsedModule[]>;
+    // Chosen definition of a duplicated module name: name -> workspace-relative file path.
+    preferredDefinitions: Map<string, string>;
+    problemsByFile: Map<string, PreprocessorProblem[]>;
+}
+
+export interface MacroDefinition {
+    name: string;
+    params?: Array<{ name: string; defaultValue?: string }>;   // set for function-like macros
+    body: string;
+}
+
+export type DefineTable = Map<string, MacroDefinition>;
+
+export interface ParseOptions {
+    enablePreprocess?: boolean;
+    logDebug?: (message: string) => void;
+    includeDirs?: vscode.Uri[];
+    cache?: ParseCache;
 }
 
 export interface VerilogParserBackend {
     parseFiles(
         files: vscode.Uri[],
-        defines?: Set<string>,
-        options?: {
-            enablePreprocess?: boolean;
-            logDebug?: (message: string) => void;
-            includeDirs?: vscode.Uri[];
-        },
+        defines?: DefineTable,
+        options?: ParseOptions,
     ): Promise<ParsedDesign>;
+
+    // Parse a single file; used for incremental reindexing after edits.
+    parseFile(
+        uri: vscode.Uri,
+        defines?: DefineTable,
+        options?: ParseOptions,
+    ): Promise<ParsedFile>;
 }
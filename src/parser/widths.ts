@@ -0,0 +1,235 @@
+// src/parser/widths.ts
+// Bit widths of declarations and connection expressions, for width mismatch checks.
+// Everything here is best effort: undefined means "unknown", never "zero".
+import { splitTopLevelCommas } from './tsRegexParser';
+
+export type ParameterValues = Map<string, number>;
+
+// Declared type and dimensions of a net, variable or port.
+export interface WidthDeclaration {
+    typeText?: string;
+    rangeText?: string;
+    unpackedText?: string;
+}
+
+const ONE_BIT_TYPES = new Set([
+    'wire', 'reg', 'logic', 'bit', 'tri', 'tri0', 'tri1', 'triand', 'trior', 'trireg',
+    'wand', 'wor', 'uwire', 'supply0', 'supply1',
+]);
+
+const INTEGER_TYPE_WIDTHS = new Map([
+    ['byte', 8], ['shortint', 16], ['int', 32], ['integer', 32], ['longint', 64], ['time', 64],
+]);
+
+const SIZED_LITERAL = /^(\d+)\s*'[sS]?[bBoOdDhH]\s*[0-9a-fA-FxXzZ_?]+$/;
+
+// Constant integer expression: numbers, parameters, + - * / % ** << >>, parentheses and $clog2.
+export function evaluateConstant(expr: string, params: ParameterValues): number | undefined {
+    const tokens = expr.match(/\d+\s*'[sS]?[bBoOdDhH]\s*[0-9a-fA-F_]+|'[sS]?[bBoOdDhH]\s*[0-9a-fA-F_]+|\d[\d_]*|\$?[a-zA-Z_]\w*(?:::[a-zA-Z_]\w*)?|\*\*|<<|>>|\S/g);
+    if (!tokens) {
+        return undefined;
+    }
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+
+    const primary = (): number | undefined => {
+        const tok = next();
+        if (tok === undefined) {
+            return undefined;
+        }
+        if (tok === '(') {
+            const value = shift();
+            return next() === ')' ? value : undefined;
+        }
+        if (tok === '-' || tok === '+') {
+            const value = power();
+            return value === undefined ? undefined : (tok === '-' ? -value : value);
+        }
+        if (tok === '$clog2') {
+            if (next() !== '(') {
+                return undefined;
+            }
+            const value = shift();
+            return next() === ')' && value !== undefined ? Math.ceil(Math.log2(Math.max(value, 1))) : undefined;
+        }
+        const based = /^(?:\d+\s*)?'[sS]?([bBoOdDhH])\s*([0-9a-fA-F_]+)$/.exec(tok);
+        if (based) {
+            const radix = { b: 2, o: 8, d: 10, h: 16 }[based[1].toLowerCase() as 'b' | 'o' | 'd' | 'h'];
+            const value = parseInt(based[2].replace(/_/g, ''), radix);
+            return Number.isNaN(value) ? undefined : value;
+        }
+        if (/^\d/.test(tok)) {
+            return parseInt(tok.replace(/_/g, ''), 10);
+        }
+        return params.get(tok);
+    };
+    const power = (): number | undefined => {
+        const base = primary();
+        if (peek() !== '**') {
+            return base;
+        }
+        next();
+        const exp = power();
+        return base === undefined || exp === undefined ? undefined : base ** exp;
+    };
+    const term = (): number | undefined => {
+        let value = power();
+        while (peek() === '*' || peek() === '/' || peek() === '%') {
+            const op = next();
+            const rhs = power();
+            if (value === undefined || rhs === undefined || (op !== '*' && rhs === 0)) {
+                return undefined;
+            }
+            value = op === '*' ? value * rhs : op === '/' ? Math.trunc(value / rhs) : value % rhs;
+        }
+        return value;
+    };
+    const sum = (): number | undefined => {
+        let value = term();
+        while (peek() === '+' || peek() === '-') {
+            const op = next();
+            const rhs = term();
+            if (value === undefined || rhs === undefined) {
+                return undefined;
+            }
+            value = op === '+' ? value + rhs : value - rhs;
+        }
+        return value;
+    };
+    const shift = (): number | undefined => {
+        let value = sum();
+        while (peek() === '<<' || peek() === '>>') {
+            const op = next();
+            const rhs = sum();
+            if (value === undefined || rhs === undefined) {
+                return undefined;
+            }
+            value = op === '<<' ? value * 2 ** rhs : Math.floor(value / 2 ** rhs);
+        }
+        return value;
+    };
+
+    const result = shift();
+    return pos === tokens.length && result !== undefined && Number.isFinite(result) ? result : undefined;
+}
+
+// "[7:0]" -> 8, "[N]" -> N.
+function dimensionWidth(dim: string, params: ParameterValues): number | undefined {
+    const colon = splitTopLevelColon(dim);
+    if (!colon) {
+        return evaluateConstant(dim, params);
+    }
+    const msb = evaluateConstant(colon[0], params);
+    const lsb = evaluateConstant(colon[1], params);
+    return msb === undefined || lsb === undefined ? undefined : Math.abs(msb - lsb) + 1;
+}
+
+function splitTopLevelColon(text: string): [string, string] | null {
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+        } else if (ch === ':' && depth === 0 && text[i + 1] !== ':' && text[i - 1] !== ':') {
+            return [text.slice(0, i), text.slice(i + 1)];
+        }
+    }
+    return null;
+}
+
+function dimensions(rangeText: string | undefined): string[] {
+    return Array.from((rangeText ?? '').matchAll(/\[([^\]]*)\]/g), m => m[1]);
+}
+
+function product(widths: Array<number | undefined>): number | undefined {
+    let total = 1;
+    for (const w of widths) {
+        if (w === undefined) {
+            return undefined;
+        }
+        total *= w;
+    }
+    return total;
+}
+
+// Packed width of a declaration; user-defined types are unknown.
+export function declarationWidth(decl: WidthDeclaration, params: ParameterValues): number | undefined {
+    const words = (decl.typeText ?? '').split(/\s+/).filter(w => w && w !== 'signed' && w !== 'unsigned' && w !== 'var');
+    let base: number | undefined;
+    if (words.every(w => ONE_BIT_TYPES.has(w))) {
+        base = 1;
+    } else if (words.length === 1 && !decl.rangeText) {
+        base = INTEGER_TYPE_WIDTHS.get(words[0]);
+    }
+    if (base === undefined) {
+        return undefined;
+    }
+    const packed = product(dimensions(decl.rangeText).map(d => dimensionWidth(d, params)));
+    return packed === undefined ? undefined : base * packed;
+}
+
+// Width of a connection expression: a sized literal, a declared name with optional selects,
+// or a concatenation / replication of those. Anything else is unknown.
+export function expressionWidth(
+    expr: string,
+    lookup: (name: string) => WidthDeclaration | undefined,
+    params: ParameterValues,
+): number | undefined {
+    const text = expr.trim();
+    const sized = SIZED_LITERAL.exec(text);
+    if (sized) {
+        return parseInt(sized[1], 10);
+    }
+
+    if (text.startsWith('{') && text.endsWith('}')) {
+        const inner = text.slice(1, -1).trim();
+        const replication = /^([^{]+)\{(.*)\}$/s.exec(inner);
+        if (replication) {
+            const count = evaluateConstant(replication[1], params);
+            const width = expressionWidth(`{${replication[2]}}`, lookup, params);
+            return count === undefined || width === undefined ? undefined : count * width;
+        }
+        let total = 0;
+        for (const part of splitTopLevelCommas(inner)) {
+            const width = expressionWidth(part.text, lookup, params);
+            if (width === undefined) {
+                return undefined;
+            }
+            total += width;
+        }
+        return total;
+    }
+
+    const ref = /^([a-zA-Z_]\w*)((?:\s*\[[^\]]*\])*)$/.exec(text);
+    const decl = ref ? lookup(ref[1]) : undefined;
+    if (!ref || !decl) {
+        return undefined;
+    }
+    const selects = dimensions(ref[2]);
+    const unpackedCount = dimensions(decl.unpackedText).length;
+    if (selects.length < unpackedCount) {
+        return undefined; // a whole unpacked array or sub-array
+    }
+    const packedSelects = selects.slice(unpackedCount);
+    if (packedSelects.length === 0) {
+        return declarationWidth(decl, params);
+    }
+    if (packedSelects.length > 1) {
+        return undefined;
+    }
+
+    const select = packedSelects[0];
+    const indexed = /[+-]:(.*)$/s.exec(select);
+    if (indexed) {
+        return evaluateConstant(indexed[1], params);
+    }
+    if (splitTopLevelColon(select)) {
+        return dimensionWidth(select, params);
+    }
+    // A single index drops the first packed dimension.
+    const packedDims = dimensions(decl.rangeText);
+    return packedDims.length <= 1 ? 1 : product(packedDims.slice(1).map(d => dimensionWidth(d, params)));
+}
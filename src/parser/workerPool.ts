@@ -0,0 +1,116 @@
+// src/parser/workerPool.ts
+import { Worker } from 'worker_threads';
+import { MacroDefinition } from './types';
+
+// Message sent to a parser worker. Paths are file system paths; uri is the
+// string form of the parsed file's vscode.Uri.
+export interface ParserJob {
+    id: number;
+    text: string;
+    uri: string;
+    fsPath: string;
+    defines: MacroDefinition[];
+    enablePreprocess: boolean;
+    includeDirs: string[];
+}
+
+// The parsed file is in the serialized form from serialize.ts.
+export interface ParserJobResult {
+    id: number;
+    file?: unknown;
+    error?: string;
+}
+
+interface PendingJob {
+    job: ParserJob;
+    resolve: (file: unknown) => void;
+    reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    current?: PendingJob;
+}
+
+export class ParserWorkerPool {
+    private workers: PoolWorker[] = [];
+    private queue: PendingJob[] = [];
+    private nextId = 1;
+    private disposed = false;
+
+    constructor(readonly size: number, private readonly script: string) {}
+
+    run(job: Omit<ParserJob, 'id'>): Promise<unknown> {
+        if (this.disposed) {
+            return Promise.reject(new Error('Parser worker pool is disposed.'));
+        }
+        return new Promise((resolve, reject) => {
+            this.queue.push({ job: { ...job, id: this.nextId++ }, resolve, reject });
+            this.dispatch();
+        });
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        for (const pending of this.queue) {
+            pending.reject(new Error('Parser worker pool is disposed.'));
+        }
+        this.queue = [];
+        for (const w of this.workers) {
+            w.current?.reject(new Error('Parser worker pool is disposed.'));
+            w.current = undefined;
+            void w.worker.terminate();
+        }
+        this.workers = [];
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0) {
+            let idle = this.workers.find(w => !w.current);
+            if (!idle && this.workers.length < this.size) {
+                idle = this.spawn();
+            }
+            if (!idle) {
+                return;
+            }
+            const pending = this.queue.shift()!;
+            idle.current = pending;
+            idle.worker.postMessage(pending.job);
+        }
+    }
+
+    private spawn(): PoolWorker {
+        const entry: PoolWorker = { worker: new Worker(this.script) };
+
+        entry.worker.on('message', (result: ParserJobResult) => {
+            const pending = entry.current;
+            entry.current = undefined;
+            if (pending && pending.job.id === result.id) {
+                if (result.error !== undefined) {
+                    pending.reject(new Error(result.error));
+                } else {
+                    pending.resolve(result.file);
+                }
+            }
+            this.dispatch();
+        });
+
+        const fail = (err: Error) => {
+            this.workers = this.workers.filter(w => w !== entry);
+            entry.current?.reject(err);
+            entry.current = undefined;
+            if (!this.disposed) {
+                this.dispatch();
+            }
+        };
+        entry.worker.on('error', fail);
+        entry.worker.on('exit', code => {
+            if (this.workers.includes(entry)) {
+                fail(new Error(`Parser worker exited with code ${code}`));
+            }
+        });
+
+        this.workers.push(entry);
+        return entry;
+    }
+}
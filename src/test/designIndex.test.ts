@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import { definitionPath, replaceFileModules, resolvedDefinitions, setPreferredDefinitions } from '../parser/designIndex';
+import { ParsedDesign, ParsedModule } from '../parser/types';
+import { parseFile, parseFixtures, writeFixtures } from './parserFixtures';
+
+function unit(design: ParsedDesign, name: string): ParsedModule {
+	const m = design.modulesByName.get(name)?.[0];
+	assert.ok(m, `${name} is not indexed`);
+	return m;
+}
+
+suite('Design Index Test Suite', () => {
+	test('classifies "<type> name" ports by whether the type is an interface', async () => {
+		const design = await parseFixtures({
+			'bus_if.sv': 'interface bus_if; logic valid; modport master (output valid); endinterface',
+			'top.sv': [
+				'module top (',
+				'  input logic clk,',
+				'  pkt_t data,',
+				'  bus_if bus,',
+				'  bus_if.master mst,',
+				'  output logic done,',
+				'  my_struct_t status',
+				');',
+				'endmodule',
+			].join('\n'),
+		});
+		const ports = unit(design, 'top').ports;
+		assert.deepStrictEqual(
+			ports.map(p => [p.name, p.direction, p.interfaceName]),
+			[
+				['clk', 'input', undefined],
+				['data', 'input', undefined],
+				['bus', 'interface', 'bus_if'],
+				['mst', 'interface', 'bus_if'],
+				['done', 'output', undefined],
+				['status', 'output', undefined],
+			],
+		);
+		assert.strictEqual(ports[1].typeText, 'pkt_t');
+		assert.strictEqual(ports[3].modportName, 'master');
+	});
+
+	test('reclassifies interface ports when the interface is removed', async () => {
+		const design = await parseFixtures({
+			'bus_if.sv': 'interface bus_if; endinterface',
+			'top.sv': 'module top (output logic done, bus_if bus); endmodule',
+		});
+		const bus = unit(design, 'top').ports[1];
+		assert.strictEqual(bus.direction, 'interface');
+
+		replaceFileModules(design, unit(design, 'bus_if').uri, []);
+		assert.strictEqual(bus.direction, 'output');
+		assert.strictEqual(bus.interfaceName, undefined);
+	});
+
+	test('reports units whose ports become interface ports when the interface is added', async () => {
+		const design = await parseFixtures({
+			'top.sv': 'module top (output logic done, bus_if bus); endmodule',
+		});
+		const bus = unit(design, 'top').ports[1];
+		assert.strictEqual(bus.direction, 'output');
+
+		const [uri] = writeFixtures({ 'bus_if.sv': 'interface bus_if; endinterface' });
+		const { modules } = await parseFile(uri);
+		const changedNames = replaceFileModules(design, uri, modules);
+		assert.deepStrictEqual([...changedNames].sort(), ['bus_if', 'top']);
+		assert.strictEqual(bus.direction, 'interface');
+		assert.strictEqual(bus.interfaceName, 'bus_if');
+	});
+
+	test('names positional connections after the target ports', async () => {
+		const design = await parseFixtures({
+			'child.v': 'module child (input clk, input rst, output [7:0] q); endmodule',
+			'top.v': [
+				'module top;',
+				'  child u_a (clk, rst, q);',
+				'  child u_b (clk, , q);',
+				'  child u_c (clk, rst, q, extra);',
+				'  missing u_d (clk);',
+				'endmodule',
+			].join('\n'),
+		});
+		const [a, b, c, d] = unit(design, 'top').instances;
+		assert.deepStrictEqual(a.bindings.map(x => [x.portName, x.expr, x.position]), [
+			['clk', 'clk', 0], ['rst', 'rst', 1], ['q', 'q', 2],
+		]);
+		assert.deepStrictEqual(b.bindings.map(x => [x.portName, x.expr]), [['clk', 'clk'], ['rst', ''], ['q', 'q']]);
+		assert.strictEqual(c.bindings[3].portName, '');
+		assert.strictEqual(d.bindings[0].portName, '');
+	});
+
+	test('renames positional connections when the target changes', async () => {
+		const design = await parseFixtures({
+			'child.v': 'module child (input clk, input rst); endmodule',
+			'top.v': 'module top;\n  child u_a (c, r);\nendmodule',
+		});
+		const child = unit(design, 'child');
+		replaceFileModules(design, child.uri, [{
+			...child,
+			ports: [child.ports[1], child.ports[0]],
+		}]);
+		assert.deepStrictEqual(unit(design, 'top').instances[0].bindings.map(x => x.portName), ['rst', 'clk']);
+	});
+
+	test('expands .* and .name connections', async () => {
+		const design = await parseFixtures({
+			'child.sv': 'module child (input logic clk, rst_n, output logic [7:0] q, output logic done); endmodule',
+			'top.sv': [
+				'module top;',
+				'  child u_a (.clk, .q(data), .*);',
+				'  child u_b (.clk, .rst_n);',
+				'endmodule',
+			].join('\n'),
+		});
+		const [a, b] = unit(design, 'top').instances;
+		assert.deepStrictEqual(a.bindings.map(x => [x.portName, x.expr, x.implicit]), [
+			['clk', 'clk', 'name'],
+			['q', 'data', undefined],
+			['rst_n', 'rst_n', 'wildcard'],
+			['done', 'done', 'wildcard'],
+		]);
+		assert.strictEqual(a.bindings[2].location, a.wildcardLocation);
+		assert.deepStrictEqual(b.bindings.map(x => [x.portName, x.expr, x.implicit]), [
+			['clk', 'clk', 'name'],
+			['rst_n', 'rst_n', 'name'],
+		]);
+	});
+
+	test('re-expands .* when the target ports change', async () => {
+		const design = await parseFixtures({
+			'child.sv': 'module child (input logic clk); endmodule',
+			'top.sv': 'module top;\n  child u_a (.*);\nendmodule',
+		});
+		const child = unit(design, 'child');
+		const inst = unit(design, 'top').instances[0];
+		assert.deepStrictEqual(inst.bindings.map(x => x.portName), ['clk']);
+
+		replaceFileModules(design, child.uri, [{
+			...child,
+			ports: [...child.ports, { ...child.ports[0], name: 'rst_n' }],
+		}]);
+		assert.deepStrictEqual(inst.bindings.map(x => x.portName), ['clk', 'rst_n']);
+
+		replaceFileModules(design, child.uri, []);
+		assert.deepStrictEqual(inst.bindings, []);
+	});
+
+	test('resolves a name to the definition chosen by its path', async () => {
+		const design = await parseFixtures({
+			'a/fifo.sv': 'module fifo; endmodule',
+			'b/fifo.sv': 'module fifo; endmodule',
+		});
+		const second = design.modulesByName.get('fifo')?.[1];
+		assert.ok(second);
+		const changedNames = setPreferredDefinitions(design, new Map([['fifo', definitionPath(second.uri)]]));
+		assert.deepStrictEqual([...changedNames], ['fifo']);
+		assert.deepStrictEqual(resolvedDefinitions(design, 'fifo'), [second]);
+		assert.strictEqual(design.modulesByName.get('fifo')?.[0], second);
+	});
+});
+
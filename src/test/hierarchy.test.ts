@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { VerilogHierarchyProvider } from '../extension';
+import { parseFixtures } from './parserFixtures';
+
+suite('Hierarchy Test Suite', () => {
+	const files = {
+		'leaf.sv': 'module leaf;\nendmodule',
+		'child.sv': 'module child;\n  leaf u_leaf ();\nendmodule',
+		'top.sv': 'module top;\n  child u_c [0:2] ();\nendmodule',
+	};
+
+	test('searches instance array elements that were never expanded', async () => {
+		const provider = new VerilogHierarchyProvider();
+		provider.update(await parseFixtures(files), 100, 'all', undefined, '', true);
+		const leaves = provider.getAllNodes().filter(node => node.moduleName === 'leaf');
+		assert.deepStrictEqual(leaves.map(node => node.parent?.label), ['u_c[0]: child', 'u_c[1]: child', 'u_c[2]: child']);
+		assert.strictEqual(provider.findNodeByModuleName('leaf')?.parent?.label, 'u_c[0]: child');
+	});
+
+	test('builds the children of an element once', async () => {
+		const provider = new VerilogHierarchyProvider();
+		provider.update(await parseFixtures(files), 100, 'all', undefined, '', true);
+		const [top] = await provider.getChildren();
+		const [array] = await provider.getChildren(top);
+		const elements = await provider.getChildren(array);
+		assert.strictEqual(elements.length, 3);
+		const [leaf] = await provider.getChildren(elements[2]);
+		assert.strictEqual(leaf.label, 'u_leaf: leaf');
+		assert.strictEqual(leaf.parent, elements[2]);
+		assert.deepStrictEqual(await provider.getChildren(elements[2]), [leaf]);
+	});
+});
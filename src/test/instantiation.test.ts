@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { buildInstantiation } from '../extension';
+import { parseSource } from './parserFixtures';
+
+suite('Instantiation Test Suite', () => {
+	const source = [
+		'module fifo #(',
+		'  parameter WIDTH = 8,',
+		'  parameter AW = $clog2(WIDTH),',
+		'  localparam DEPTH = 1 << AW',
+		') (',
+		'  input logic clk,',
+		'  output logic [WIDTH-1:0] dout,',
+		'  bus_if.master bus',
+		');',
+		'endmodule',
+	].join('\n');
+
+	test('aligns parameter and port connections with direction comments', async () => {
+		const { modules } = await parseSource(source);
+		assert.strictEqual(buildInstantiation(modules[0], false), [
+			'fifo #(',
+			'    .WIDTH (8),',
+			'    .AW    ($clog2(WIDTH))',
+			') u_fifo (',
+			'    .clk  (clk),  // input',
+			'    .dout (dout), // output [WIDTH-1:0]',
+			'    .bus  (bus)   // bus_if.master',
+			');',
+			'',
+		].join('\n'));
+	});
+
+	test('makes names and values tab stops in the snippet form', async () => {
+		const { modules } = await parseSource(source);
+		assert.strictEqual(buildInstantiation(modules[0], true), [
+			'fifo #(',
+			'\t.WIDTH (${2:8}),',
+			'\t.AW    (${3:\\$clog2(WIDTH)})',
+			') ${1:u_fifo} (',
+			'\t.clk  (${4:clk}),  // input',
+			'\t.dout (${5:dout}), // output [WIDTH-1:0]',
+			'\t.bus  (${6:bus})   // bus_if.master',
+			');',
+			'$0',
+		].join('\n'));
+	});
+
+	test('omits the parameter list for modules without parameters', async () => {
+		const { modules } = await parseSource('module leaf (input a);\nendmodule');
+		assert.strictEqual(buildInstantiation(modules[0], false), 'leaf u_leaf (\n    .a (a)  // input\n);\n');
+	});
+});
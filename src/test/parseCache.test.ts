@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParseCache } from '../parser/parseCache';
+import { parseFile, writeFixtures } from './parserFixtures';
+
+suite('Parse Cache Test Suite', () => {
+	test('reuses a parse only while its includes are unchanged', async () => {
+		const [top, defs] = writeFixtures({
+			'top.sv': [
+				'`include "defs.svh"',
+				'`include "late.svh"',
+				'module top;',
+				'  `CHILD u_child ();',
+				'endmodule',
+			].join('\n'),
+			'defs.svh': '`define CHILD child_a',
+		});
+		const cache = await ParseCache.load(undefined);
+		const options = { cache };
+		const instanceModule = async () => (await parseFile(top, undefined, options)).modules[0].instances[0].moduleName;
+
+		assert.strictEqual(await instanceModule(), 'child_a');
+		assert.deepStrictEqual(cache.takeStats(), { hits: 0, misses: 1 });
+		assert.strictEqual(await instanceModule(), 'child_a');
+		assert.deepStrictEqual(cache.takeStats(), { hits: 1, misses: 0 });
+
+		// A changed header invalidates the entry of the file that includes it.
+		fs.writeFileSync(defs.fsPath, '`define CHILD child_bb');
+		assert.strictEqual(await instanceModule(), 'child_bb');
+		assert.deepStrictEqual(cache.takeStats(), { hits: 0, misses: 1 });
+
+		// So does a missing include that now exists.
+		const cached = await parseFile(top, undefined, options);
+		assert.strictEqual(cached.problems.length, 1);
+		fs.writeFileSync(path.join(path.dirname(top.fsPath), 'late.svh'), '');
+		const reparsed = await parseFile(top, undefined, options);
+		assert.strictEqual(reparsed.problems.length, 0);
+		assert.deepStrictEqual(cache.takeStats(), { hits: 1, misses: 1 });
+	});
+});
@@ -0,0 +1,287 @@
+import * as assert from 'assert';
+import { ParsedModule } from '../parser/types';
+import { parseSource } from './parserFixtures';
+
+async function parseModule(text: string): Promise<ParsedModule> {
+	const { modules } = await parseSource(text);
+	assert.strictEqual(modules.length, 1);
+	return modules[0];
+}
+
+suite('Parser Test Suite', () => {
+	suite('signals', () => {
+		const signal = (m: ParsedModule, name: string) => m.signals.find(s => s.name === name);
+
+		test('parses net and variable declarations', async () => {
+			const m = await parseModule([
+				'module top;',
+				'  wire [7:0] a, b;',
+				'  logic signed [3:0][1:0] c [0:3];',
+				'  pkg::word_t d;',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(m.signals.map(s => s.name), ['a', 'b', 'c', 'd']);
+			assert.strictEqual(signal(m, 'a')?.kind, 'net');
+			assert.strictEqual(signal(m, 'b')?.rangeText, '[7:0]');
+			assert.strictEqual(signal(m, 'c')?.kind, 'variable');
+			assert.strictEqual(signal(m, 'c')?.typeText, 'logic signed');
+			assert.strictEqual(signal(m, 'c')?.rangeText, '[3:0][1:0]');
+			assert.strictEqual(signal(m, 'c')?.unpackedText, '[0:3]');
+			assert.strictEqual(signal(m, 'd')?.typeText, 'pkg::word_t');
+			assert.strictEqual(signal(m, 'd')?.location.range.start.line, 3);
+		});
+
+		test('ignores assignments, instances and statements', async () => {
+			const m = await parseModule([
+				'module top;',
+				'  logic x;',
+				'  assign x = 1;',
+				'  child u_child (.a(x));',
+				'  always_comb y = x;',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(m.signals.map(s => s.name), ['x']);
+		});
+
+		test('does not join a declaration to a preceding end keyword', async () => {
+			const m = await parseModule([
+				'module top;',
+				'  always_comb begin',
+				'    case (sel)',
+				'      0: y = a;',
+				'    endcase',
+				'  end',
+				'  logic [3:0] cnt;',
+				'  generate',
+				'    if (1) begin : g',
+				'      wire t;',
+				'    end else begin : h',
+				'      wire [1:0] u;',
+				'    end',
+				'  endgenerate',
+				'  reg r1;',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(m.signals.map(s => s.name), ['cnt', 't', 'u', 'r1']);
+			assert.strictEqual(signal(m, 'cnt')?.typeText, 'logic');
+			assert.strictEqual(signal(m, 'cnt')?.rangeText, '[3:0]');
+			assert.strictEqual(signal(m, 'cnt')?.location.range.start.character, 14);
+			assert.strictEqual(signal(m, 'u')?.typeText, 'wire');
+			assert.strictEqual(signal(m, 'r1')?.typeText, 'reg');
+		});
+
+		test('handles block keywords on the same line as a declaration', async () => {
+			const m = await parseModule([
+				'module top;',
+				'  initial begin',
+				'  end logic a;',
+				'  begin : blk logic [2:0] b;',
+				'  end',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(m.signals.map(s => s.name), ['a', 'b']);
+			assert.strictEqual(signal(m, 'b')?.typeText, 'logic');
+		});
+	});
+
+	suite('instances', () => {
+		test('parses named, positional and wildcard connections', async () => {
+			const m = await parseModule([
+				'module top;',
+				'  child #(.W(8)) u_a (.a(x), .b());',
+				'  child u_b (x, y);',
+				'  child u_c (.*);',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(m.instances.map(i => i.instanceName), ['u_a', 'u_b', 'u_c']);
+			assert.deepStrictEqual(m.instances[0].bindings.map(b => [b.portName, b.expr]), [['a', 'x'], ['b', '']]);
+			assert.deepStrictEqual(m.instances[0].parameterBindings.map(b => b.paramName), ['W']);
+			assert.deepStrictEqual(m.instances[1].bindings.map(b => [b.position, b.expr]), [[0, 'x'], [1, 'y']]);
+			assert.ok(m.instances[2].wildcardLocation);
+		});
+
+		test('does not treat assertions as instances', async () => {
+			const m = await parseModule([
+				'module top;',
+				'  property p_stable(sig);',
+				'    @(posedge clk) $stable(sig);',
+				'  endproperty',
+				'  assert property (@(posedge clk) a |-> b);',
+				'  a_ok: assert property(p_stable(a)) else $error("a");',
+				'  cover property (@(posedge clk) b);',
+				'  assume property (@(posedge clk) !c);',
+				'  child u_child (.a(a));',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(m.instances.map(i => i.moduleName), ['child']);
+		});
+	});
+
+	suite('ports', () => {
+		test('parses ANSI port declarations', async () => {
+			const m = await parseModule([
+				'module child (',
+				'  input  wire [7:0] a,',
+				'  output logic signed [W-1:0] b = 0,',
+				'  inout c,',
+				'  bus_if.master m',
+				');',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(
+				m.ports.map(p => [p.direction, p.typeText, p.rangeText, p.name]),
+				[
+					['input', 'wire', '[7:0]', 'a'],
+					['output', 'logic signed', '[W-1:0]', 'b'],
+					['inout', undefined, undefined, 'c'],
+					['interface', undefined, undefined, 'm'],
+				],
+			);
+			assert.strictEqual(m.ports[3].interfaceName, 'bus_if');
+			assert.strictEqual(m.ports[3].modportName, 'master');
+			assert.strictEqual(m.ports[1].location.range.start.character, 30);
+		});
+
+		test('repeats the previous declaration for bare port names', async () => {
+			const m = await parseModule([
+				'module child (input [7:0] a, b, output logic [3:0] c, d, bus_if.master m0, m1);',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(
+				m.ports.map(p => [p.name, p.direction, p.typeText, p.rangeText]),
+				[
+					['a', 'input', undefined, '[7:0]'],
+					['b', 'input', undefined, '[7:0]'],
+					['c', 'output', 'logic', '[3:0]'],
+					['d', 'output', 'logic', '[3:0]'],
+					['m0', 'interface', undefined, undefined],
+					['m1', 'interface', undefined, undefined],
+				],
+			);
+			assert.strictEqual(m.ports[5].modportName, 'master');
+			assert.strictEqual(m.ports[1].location.range.start.character, 29);
+		});
+
+		test('takes non-ANSI port declarations from the body', async () => {
+			const m = await parseModule([
+				'module child (a, b, c);',
+				'  input [3:0] a;',
+				'  output reg b, c;',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(
+				m.ports.map(p => [p.name, p.direction, p.typeText, p.rangeText]),
+				[
+					['a', 'input', undefined, '[3:0]'],
+					['b', 'output', 'reg', undefined],
+					['c', 'output', 'reg', undefined],
+				],
+			);
+			assert.strictEqual(m.ports[0].declarationLocation?.range.start.line, 1);
+		});
+
+		test('ignores modports and clocking blocks when merging body declarations', async () => {
+			const m = await parseModule([
+				'interface bus_if (input logic clk, output logic [7:0] data, valid);',
+				'  modport master (output clk, input data);',
+				'  clocking cb @(posedge clk);',
+				'    input data;',
+				'  endclocking',
+				'  input valid;',
+				'endinterface',
+			].join('\n'));
+			assert.deepStrictEqual(
+				m.ports.map(p => [p.name, p.direction, p.typeText, p.rangeText]),
+				[
+					['clk', 'input', 'logic', undefined],
+					['data', 'output', 'logic', '[7:0]'],
+					['valid', 'output', 'logic', '[7:0]'],
+				],
+			);
+			assert.ok(m.ports.every(p => p.declarationLocation === undefined));
+		});
+	});
+
+	suite('preprocessor', () => {
+		test('expands object-like and function-like macros', async () => {
+			const m = await parseModule([
+				'`define FIFO_MOD sync_fifo',
+				'`define MK_INST(mod, name) mod name (.clk(clk))',
+				'module top;',
+				'  `FIFO_MOD u_fifo (.clk(clk));',
+				'  `MK_INST(child, u_child);',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(
+				m.instances.map(i => [i.moduleName, i.instanceName]),
+				[['sync_fifo', 'u_fifo'], ['child', 'u_child']],
+			);
+			// Locations point into the original source, not the expansion.
+			assert.strictEqual(m.instances[0].location.range.start.line, 3);
+			assert.strictEqual(m.instances[1].location.range.start.line, 4);
+		});
+
+		test('uses external defines and conditional blocks', async () => {
+			const defines = new Map([['USE_FAST', { name: 'USE_FAST', body: '' }], ['CORE', { name: 'CORE', body: 'fast_core' }]]);
+			const { modules } = await parseSource([
+				'module top;',
+				'`ifdef USE_FAST',
+				'  `CORE u_core ();',
+				'`elsif USE_SLOW',
+				'  slow_core u_core ();',
+				'`else',
+				'  default_core u_core ();',
+				'`endif',
+				'`ifndef USE_FAST',
+				'  extra u_extra ();',
+				'`endif',
+				'endmodule',
+			].join('\n'), defines);
+			assert.deepStrictEqual(modules[0].instances.map(i => i.moduleName), ['fast_core']);
+		});
+	});
+
+	suite('parameters', () => {
+		test('parses header and body parameters', async () => {
+			const m = await parseModule([
+				'module fifo #(',
+				'  parameter int WIDTH = 8,',
+				'  parameter DEPTH = WIDTH * 2,',
+				'  localparam AW = $clog2(DEPTH)',
+				') (input logic clk);',
+				'  localparam [3:0] MODE = 4\'h1;',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(
+				m.parameters.map(p => [p.kind, p.typeText, p.name, p.defaultValue]),
+				[
+					['parameter', 'int', 'WIDTH', '8'],
+					['parameter', undefined, 'DEPTH', 'WIDTH * 2'],
+					['localparam', undefined, 'AW', '$clog2(DEPTH)'],
+					['localparam', '[3:0]', 'MODE', "4'h1"],
+				],
+			);
+			assert.strictEqual(m.parameters[1].location.range.start.line, 2);
+			assert.deepStrictEqual(m.ports.map(p => p.name), ['clk']);
+		});
+
+		test('parses named and positional parameter overrides', async () => {
+			const m = await parseModule([
+				'module top;',
+				'  fifo #(.WIDTH(16), .DEPTH(W * 4)) u_a (.clk(clk));',
+				'  fifo #(16, 32) u_b (.clk(clk));',
+				'  fifo #8 u_c (.clk(clk));',
+				'endmodule',
+			].join('\n'));
+			assert.deepStrictEqual(
+				m.instances.map(i => i.parameterBindings.map(b => [b.paramName, b.position, b.expr])),
+				[
+					[['WIDTH', 0, '16'], ['DEPTH', 1, 'W * 4']],
+					[[undefined, 0, '16'], [undefined, 1, '32']],
+					[[undefined, 0, '8']],
+				],
+			);
+		});
+	});
+});
+
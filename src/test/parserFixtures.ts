@@ -0,0 +1,45 @@
+// Helpers for tests that run the parser on files written to a temporary directory.
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TsRegexParserBackend } from '../parser/tsRegexBackend';
+import { DefineTable, ParsedDesign, ParsedFile, ParseOptions } from '../parser/types';
+
+const backend = new TsRegexParserBackend();
+
+// Write the given files into a fresh directory and return their uris in order.
+export function writeFixtures(files: Record<string, string>): vscode.Uri[] {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vetree-test-'));
+	return Object.entries(files).map(([name, text]) => {
+		const file = path.join(dir, name);
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		fs.writeFileSync(file, text);
+		return vscode.Uri.file(file);
+	});
+}
+
+export async function parseFile(
+	uri: vscode.Uri,
+	defines?: DefineTable,
+	options?: ParseOptions,
+): Promise<ParsedFile> {
+	return backend.parseFile(uri, defines, options);
+}
+
+export async function parseSource(
+	text: string,
+	defines?: DefineTable,
+	options?: ParseOptions,
+): Promise<ParsedFile> {
+	const [uri] = writeFixtures({ 'test.sv': text });
+	return backend.parseFile(uri, defines, options);
+}
+
+export async function parseFixtures(
+	files: Record<string, string>,
+	defines?: DefineTable,
+	options?: ParseOptions,
+): Promise<ParsedDesign> {
+	return backend.parseFiles(writeFixtures(files), defines, options);
+}
@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { computeRenameEdits, RenameEdit, RenameTarget } from '../extension';
+import { ParsedDesign } from '../parser/types';
+import { parseFixtures } from './parserFixtures';
+
+const nowhere = new vscode.Range(0, 0, 0, 0);
+
+// Text of every file in the design after applying edits, keyed by file name.
+async function rename(design: ParsedDesign, target: RenameTarget, newName: string): Promise<Map<string, string>> {
+	const edits = await computeRenameEdits(design, target, newName, uri => vscode.workspace.openTextDocument(uri));
+	const result = new Map<string, string>();
+	for (const key of design.modulesByFile.keys()) {
+		const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(key));
+		const own = edits
+			.filter((e: RenameEdit) => e.uri.toString() === key)
+			.sort((a, b) => doc.offsetAt(b.range.start) - doc.offsetAt(a.range.start));
+		let text = doc.getText();
+		for (const e of own) {
+			text = text.slice(0, doc.offsetAt(e.range.start)) + e.newText + text.slice(doc.offsetAt(e.range.end));
+		}
+		result.set(key.slice(key.lastIndexOf('/') + 1), text);
+	}
+	return result;
+}
+
+suite('Rename Test Suite', () => {
+	test('renames a module, its end label and instantiations', async () => {
+		const design = await parseFixtures({
+			'child.sv': 'module child (input logic clk);\nendmodule : child',
+			'top.sv': 'module top;\n  child u_a (.clk(clk));\n  child u_b (.*);\nendmodule',
+		});
+		const files = await rename(design, { kind: 'module', name: 'child', range: nowhere }, 'leaf');
+		assert.strictEqual(files.get('child.sv'), 'module leaf (input logic clk);\nendmodule : leaf');
+		assert.strictEqual(files.get('top.sv'), 'module top;\n  leaf u_a (.clk(clk));\n  leaf u_b (.*);\nendmodule');
+	});
+
+	test('does not rename interfaces', async () => {
+		const design = await parseFixtures({
+			'bus_if.sv': 'interface bus_if;\nendinterface',
+			'top.sv': 'module top (bus_if.master bus);\nendmodule',
+		});
+		const target: RenameTarget = { kind: 'module', name: 'bus_if', range: nowhere };
+		assert.deepStrictEqual(await computeRenameEdits(design, target, 'axi_if', uri => vscode.workspace.openTextDocument(uri)), []);
+	});
+
+	test('keeps implicit connections of instances when renaming a port', async () => {
+		const design = await parseFixtures({
+			'child.sv': [
+				'module child (input logic clk, output logic q);',
+				"  always_ff @(posedge clk) q <= 1'b0;",
+				'endmodule',
+			].join('\n'),
+			'top.sv': [
+				'module top;',
+				'  logic clk, q;',
+				'  child u_a (.clk, .q);',
+				'  child u_b (.*);',
+				'  child u_c (.clk(clk), .q());',
+				'endmodule',
+			].join('\n'),
+		});
+		const files = await rename(design, { kind: 'port', moduleName: 'child', name: 'clk', range: nowhere }, 'clk_i');
+		assert.strictEqual(files.get('child.sv'), [
+			'module child (input logic clk_i, output logic q);',
+			"  always_ff @(posedge clk_i) q <= 1'b0;",
+			'endmodule',
+		].join('\n'));
+		assert.strictEqual(files.get('top.sv'), [
+			'module top;',
+			'  logic clk, q;',
+			'  child u_a (.clk_i(clk), .q);',
+			'  child u_b (.clk_i(clk), .*);',
+			'  child u_c (.clk_i(clk), .q());',
+			'endmodule',
+		].join('\n'));
+	});
+
+	test('keeps implicit connections in the body when renaming a port', async () => {
+		const design = await parseFixtures({
+			'child.sv': 'module child (input logic clk, output logic q);\nendmodule',
+			'top.sv': [
+				'module top (input logic clk);',
+				'  child u_a (.clk, .q());',
+				'  child u_b (.*);',
+				'endmodule',
+			].join('\n'),
+		});
+		const files = await rename(design, { kind: 'port', moduleName: 'top', name: 'clk', range: nowhere }, 'sys_clk');
+		assert.strictEqual(files.get('top.sv'), [
+			'module top (input logic sys_clk);',
+			'  child u_a (.clk(sys_clk), .q());',
+			'  child u_b (.clk(sys_clk), .*);',
+			'endmodule',
+		].join('\n'));
+		assert.strictEqual(files.get('child.sv'), 'module child (input logic clk, output logic q);\nendmodule');
+	});
+});
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { VerilogWorkspaceSymbolProvider } from '../extension';
+import { parseFixtures } from './parserFixtures';
+
+suite('Symbol Test Suite', () => {
+	test('lists ports and instances under the unit that declares them', async () => {
+		const design = await parseFixtures({
+			'fifo.sv': 'module fifo (input logic wr_en);\nendmodule',
+			'top.sv': 'module top;\n  fifo u_fifo (.wr_en(1\'b0));\nendmodule',
+		});
+		const provider = new VerilogWorkspaceSymbolProvider(() => design);
+		const token = { isCancellationRequested: false } as vscode.CancellationToken;
+		const symbols = await provider.provideWorkspaceSymbols('', token) ?? [];
+		assert.deepStrictEqual(
+			symbols.map(s => [s.name, s.containerName]).sort(),
+			[['fifo', ''], ['fifo.wr_en', 'fifo'], ['top', ''], ['top.u_fifo', 'top']],
+		);
+	});
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { declarationWidth, evaluateConstant, expressionWidth, WidthDeclaration } from '../parser/widths';
+
+suite('Width Test Suite', () => {
+	const params = new Map([['N', 8], ['DEPTH', 16]]);
+
+	test('evaluateConstant handles literals, parameters and operators', () => {
+		assert.strictEqual(evaluateConstant('42', params), 42);
+		assert.strictEqual(evaluateConstant('1_000', params), 1000);
+		assert.strictEqual(evaluateConstant("8'hff", params), 255);
+		assert.strictEqual(evaluateConstant("'b101", params), 5);
+		assert.strictEqual(evaluateConstant('N-1', params), 7);
+		assert.strictEqual(evaluateConstant('(N+2)*2', params), 20);
+		assert.strictEqual(evaluateConstant('2**N', params), 256);
+		assert.strictEqual(evaluateConstant('1 << 4', params), 16);
+		assert.strictEqual(evaluateConstant('DEPTH % 5', params), 1);
+		assert.strictEqual(evaluateConstant('$clog2(DEPTH)', params), 4);
+		assert.strictEqual(evaluateConstant('-N', params), -8);
+	});
+
+	test('evaluateConstant returns undefined for unknown values', () => {
+		assert.strictEqual(evaluateConstant('WIDTH-1', params), undefined);
+		assert.strictEqual(evaluateConstant('N/0', params), undefined);
+		assert.strictEqual(evaluateConstant('N+', params), undefined);
+		assert.strictEqual(evaluateConstant('(N', params), undefined);
+		assert.strictEqual(evaluateConstant('', params), undefined);
+	});
+
+	test('declarationWidth multiplies packed dimensions', () => {
+		assert.strictEqual(declarationWidth({ typeText: 'logic' }, params), 1);
+		assert.strictEqual(declarationWidth({ typeText: 'wire', rangeText: '[7:0]' }, params), 8);
+		assert.strictEqual(declarationWidth({ typeText: 'logic signed', rangeText: '[N-1:0]' }, params), 8);
+		assert.strictEqual(declarationWidth({ typeText: 'logic', rangeText: '[3:0][N-1:0]' }, params), 32);
+		assert.strictEqual(declarationWidth({ typeText: 'reg', rangeText: '[0:3]' }, params), 4);
+		assert.strictEqual(declarationWidth({ typeText: 'int' }, params), 32);
+		assert.strictEqual(declarationWidth({ typeText: 'byte' }, params), 8);
+	});
+
+	test('declarationWidth ignores unpacked dimensions and unknown types', () => {
+		assert.strictEqual(declarationWidth({ typeText: 'logic', rangeText: '[7:0]', unpackedText: '[0:3]' }, params), 8);
+		assert.strictEqual(declarationWidth({ typeText: 'pkt_t' }, params), undefined);
+		assert.strictEqual(declarationWidth({ typeText: 'logic', rangeText: '[W-1:0]' }, params), undefined);
+	});
+
+	test('expressionWidth handles literals, selects, concatenation and replication', () => {
+		const decls = new Map<string, WidthDeclaration>([
+			['a', { typeText: 'logic', rangeText: '[7:0]' }],
+			['b', { typeText: 'wire' }],
+			['m', { typeText: 'logic', rangeText: '[3:0][7:0]' }],
+			['mem', { typeText: 'logic', rangeText: '[15:0]', unpackedText: '[0:DEPTH-1]' }],
+		]);
+		const lookup = (name: string) => decls.get(name);
+		assert.strictEqual(expressionWidth("4'b1010", lookup, params), 4);
+		assert.strictEqual(expressionWidth('a', lookup, params), 8);
+		assert.strictEqual(expressionWidth('a[3:0]', lookup, params), 4);
+		assert.strictEqual(expressionWidth('a[2]', lookup, params), 1);
+		assert.strictEqual(expressionWidth('a[i +: 2]', lookup, params), 2);
+		assert.strictEqual(expressionWidth('m[1]', lookup, params), 8);
+		assert.strictEqual(expressionWidth('mem[3]', lookup, params), 16);
+		assert.strictEqual(expressionWidth('{a, b}', lookup, params), 9);
+		assert.strictEqual(expressionWidth('{2{a}}', lookup, params), 16);
+		assert.strictEqual(expressionWidth("{N{1'b0}}", lookup, params), 8);
+	});
+
+	test('expressionWidth returns undefined for unknown expressions', () => {
+		const lookup = (name: string): WidthDeclaration | undefined =>
+			name === 'a' ? { typeText: 'logic', rangeText: '[7:0]' } : undefined;
+		assert.strictEqual(expressionWidth('a + 1', lookup, params), undefined);
+		assert.strictEqual(expressionWidth('missing', lookup, params), undefined);
+		assert.strictEqual(expressionWidth('{a, missing}', lookup, params), undefined);
+		assert.strictEqual(expressionWidth('5', lookup, params), undefined);
+	});
+});